@@ -0,0 +1,26 @@
+import Record from '../../data/Record'
+
+export interface Dependents {
+  /**
+   * The entity of the dependent records. It's the pivot entity for the
+   * pivot-based relationships.
+   */
+  entity: string
+
+  /**
+   * The condition that matches the dependent records.
+   */
+  condition: (record: Record) => boolean
+
+  /**
+   * The fields of the dependent records referring to the parent records.
+   */
+  keys: string[]
+
+  /**
+   * Whether if the dependent records are pivot records.
+   */
+  pivot: boolean
+}
+
+export default Dependents
@@ -0,0 +1,3 @@
+export type OnDelete = 'cascade' | 'setNull' | 'restrict' | 'detach'
+
+export default OnDelete
@@ -0,0 +1,8 @@
+import Validator from './Validator'
+
+export interface Rule {
+  validator: Validator
+  message: string | ((key: string) => string)
+}
+
+export default Rule
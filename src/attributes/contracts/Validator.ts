@@ -0,0 +1,7 @@
+import Model from '../../model/Model'
+
+export type ValidatorResult = boolean | string
+
+export type Validator = (value: any, model: Model) => ValidatorResult | Promise<ValidatorResult>
+
+export default Validator
@@ -2,9 +2,15 @@ import Attribute from './Attribute'
 import Type from './types/Type'
 import Attr from './types/Attr'
 import Increment from './types/Increment'
+import Uid from './types/Uid'
 import String from './types/String'
 import Number from './types/Number'
 import Boolean from './types/Boolean'
+import DateType from './types/DateType'
+import ArrayType from './types/ArrayType'
+import ObjectType from './types/ObjectType'
+import Enum from './types/Enum'
+import Embedded from './types/Embedded'
 import Relation from './relations/Relation'
 import HasOne from './relations/HasOne'
 import BelongsTo from './relations/BelongsTo'
@@ -23,9 +29,15 @@ export {
   Type,
   Attr,
   Increment,
+  Uid,
   String,
   Number,
   Boolean,
+  DateType,
+  ArrayType,
+  ObjectType,
+  Enum,
+  Embedded,
   Relation,
   HasOne,
   BelongsTo,
@@ -4,6 +4,7 @@ import { Record, NormalizedData, Collection } from '../../data'
 import Model from '../../model/Model'
 import Query from '../../query/Query'
 import Constraint from '../../query/contracts/RelationshipConstraint'
+import Aggregator from '../../query/contracts/Aggregator'
 import DictionaryOne from '../contracts/DictionaryOne'
 import Relation from './Relation'
 
@@ -59,6 +60,14 @@ export default class BelongsTo extends Relation {
       : key
   }
 
+  /**
+   * Get the foreign key values of the record associated with the given
+   * parent record, or the values dissociating it when the parent is `null`.
+   */
+  getAssociateValues (parent: Record | null): Record {
+    return { [this.foreignKey]: parent === null ? null : parent[this.ownerKey] }
+  }
+
   /**
    * Convert given value to the appropriate value for the attribute.
    */
@@ -77,6 +86,19 @@ export default class BelongsTo extends Relation {
     this.match(collection, relation.get(), name)
   }
 
+  /**
+   * Aggregate the related records of each model in the given collection. The
+   * records are read from the state as they are, without being loaded onto
+   * the models.
+   */
+  aggregate (query: Query, collection: Collection, _name: string, constraints: Constraint[], aggregator: Aggregator): any[] {
+    const relation = this.getRelation(query, this.parent.entity, constraints)
+
+    this.addEagerConstraints(relation, collection)
+
+    return this.aggregateDictionary(collection, this.buildDictionary(relation.select()), this.foreignKey, aggregator)
+  }
+
   /**
    * Set the constraints for an eager load of the relation.
    */
@@ -4,7 +4,9 @@ import { Record, NormalizedData, Collection } from '../../data'
 import Model from '../../model/Model'
 import Query from '../../query/Query'
 import Constraint from '../../query/contracts/RelationshipConstraint'
+import Aggregator from '../../query/contracts/Aggregator'
 import DictionaryMany from '../contracts/DictionaryMany'
+import Dependents from '../contracts/Dependents'
 import Relation from './Relation'
 
 export default class HasMany extends Relation {
@@ -56,6 +58,26 @@ export default class HasMany extends Relation {
     })
   }
 
+  /**
+   * Get the foreign key values of the related records belonging to the
+   * given parent record.
+   */
+  getForeignKeyValues (parent: Record): Record {
+    return { [this.foreignKey]: parent[this.localKey] }
+  }
+
+  /**
+   * Get the records depending on the given parent records.
+   */
+  getDependents (collection: Collection): Dependents {
+    return {
+      entity: this.related.entity,
+      condition: this.dependOn(collection, this.localKey, this.foreignKey),
+      keys: [this.foreignKey],
+      pivot: false
+    }
+  }
+
   /**
    * Convert given value to the appropriate value for the attribute.
    */
@@ -74,6 +96,19 @@ export default class HasMany extends Relation {
     this.match(collection, relation.get(), name)
   }
 
+  /**
+   * Aggregate the related records of each model in the given collection. The
+   * records are read from the state as they are, without being loaded onto
+   * the models.
+   */
+  aggregate (query: Query, collection: Collection, _name: string, constraints: Constraint[], aggregator: Aggregator): any[] {
+    const relation = this.getRelation(query, this.related.entity, constraints)
+
+    this.addEagerConstraints(relation, collection)
+
+    return this.aggregateDictionary(collection, this.buildDictionary(relation.select()), this.localKey, aggregator)
+  }
+
   /**
    * Set the constraints for an eager load of the relation.
    */
@@ -4,6 +4,7 @@ import { Record, NormalizedData, Collection } from '../../data'
 import Model from '../../model/Model'
 import Query from '../../query/Query'
 import Constraint from '../../query/contracts/RelationshipConstraint'
+import Aggregator from '../../query/contracts/Aggregator'
 import DictionaryOne from '../contracts/DictionaryOne'
 import Relation from './Relation'
 
@@ -76,6 +77,21 @@ export default class HasManyBy extends Relation {
     })
   }
 
+  /**
+   * Aggregate the related records of each model in the given collection. The
+   * records are read from the state as they are, without being loaded onto
+   * the models.
+   */
+  aggregate (query: Query, collection: Collection, _name: string, constraints: Constraint[], aggregator: Aggregator): any[] {
+    const relatedQuery = this.getRelation(query, this.parent.entity, constraints)
+
+    this.addConstraintForHasManyBy(relatedQuery, collection)
+
+    const relations = this.mapSingleRelations(relatedQuery.select(), this.ownerKey) as DictionaryOne
+
+    return collection.map(item => aggregator(this.getRelatedRecords(relations, item[this.foreignKey])))
+  }
+
   /**
    * Set the constraints for an eager load of the relation.
    */
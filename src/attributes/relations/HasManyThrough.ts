@@ -4,6 +4,7 @@ import { Record, Records, NormalizedData, Collection } from '../../data'
 import Model from '../../model/Model'
 import Query from '../../query/Query'
 import Constraint from '../../query/contracts/RelationshipConstraint'
+import Aggregator from '../../query/contracts/Aggregator'
 import Relation from './Relation'
 
 export type Entity = typeof Model | string
@@ -97,7 +98,7 @@ export default class HasManyThrough extends Relation {
 
     this.addEagerConstraintForRelated(relatedQuery, throughs)
 
-    const relateds = this.mapThroughRelations(throughs, relatedQuery)
+    const relateds = this.mapThroughRelations(throughs, relatedQuery.get())
 
     collection.forEach((item) => {
       const related = relateds[item[this.localKey]]
@@ -106,6 +107,27 @@ export default class HasManyThrough extends Relation {
     })
   }
 
+  /**
+   * Aggregate the related records of each model in the given collection. The
+   * records are read from the state as they are, without being loaded onto
+   * the models.
+   */
+  aggregate (query: Query, collection: Collection, _name: string, constraints: Constraint[], aggregator: Aggregator): any[] {
+    const relatedQuery = this.getRelation(query, this.related.entity, constraints)
+
+    const throughQuery = query.newQuery(this.through.entity)
+
+    this.addEagerConstraintForThrough(throughQuery, collection)
+
+    const throughs = throughQuery.select()
+
+    this.addEagerConstraintForRelated(relatedQuery, throughs)
+
+    const relateds = this.mapThroughRelations(throughs, relatedQuery.select())
+
+    return this.aggregateDictionary(collection, relateds, this.localKey, aggregator)
+  }
+
   /**
    * Set the constraints for the through relation.
    */
@@ -123,8 +145,8 @@ export default class HasManyThrough extends Relation {
   /**
    * Create a new indexed map for the through relation.
    */
-  mapThroughRelations (throughs: Collection, relatedQuery: Query): Records {
-    const relateds = this.mapManyRelations(relatedQuery.get(), this.secondKey)
+  mapThroughRelations (throughs: Collection, records: Collection): Records {
+    const relateds = this.mapManyRelations(records, this.secondKey)
 
     return throughs.reduce<Record>((records, record) => {
       const id = record[this.firstKey]
@@ -4,7 +4,9 @@ import { Record, NormalizedData, Collection } from '../../data'
 import Model from '../../model/Model'
 import Query from '../../query/Query'
 import Constraint from '../../query/contracts/RelationshipConstraint'
+import Aggregator from '../../query/contracts/Aggregator'
 import DictionaryOne from '../contracts/DictionaryOne'
+import Dependents from '../contracts/Dependents'
 import Relation from './Relation'
 
 export default class HasOne extends Relation {
@@ -63,6 +65,26 @@ export default class HasOne extends Relation {
     }
   }
 
+  /**
+   * Get the foreign key values of the related records belonging to the
+   * given parent record.
+   */
+  getForeignKeyValues (parent: Record): Record {
+    return { [this.foreignKey]: parent[this.localKey] }
+  }
+
+  /**
+   * Get the records depending on the given parent records.
+   */
+  getDependents (collection: Collection): Dependents {
+    return {
+      entity: this.related.entity,
+      condition: this.dependOn(collection, this.localKey, this.foreignKey),
+      keys: [this.foreignKey],
+      pivot: false
+    }
+  }
+
   /**
    * Make value to be set to model property. This method is used when
    * instantiating a model or creating a plain object from a model.
@@ -82,6 +104,19 @@ export default class HasOne extends Relation {
     this.match(collection, relation.get(), name)
   }
 
+  /**
+   * Aggregate the related records of each model in the given collection. The
+   * records are read from the state as they are, without being loaded onto
+   * the models.
+   */
+  aggregate (query: Query, collection: Collection, _name: string, constraints: Constraint[], aggregator: Aggregator): any[] {
+    const relation = this.getRelation(query, this.related.entity, constraints)
+
+    this.addEagerConstraints(relation, collection)
+
+    return this.aggregateDictionary(collection, this.buildDictionary(relation.select()), this.localKey, aggregator)
+  }
+
   /**
    * Set the constraints for an eager load of the relation.
    */
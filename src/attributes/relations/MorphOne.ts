@@ -4,6 +4,8 @@ import { Record, NormalizedData, Collection } from '../../data'
 import Model from '../../model/Model'
 import Query from '../../query/Query'
 import Constraint from '../../query/contracts/RelationshipConstraint'
+import Aggregator from '../../query/contracts/Aggregator'
+import Dependents from '../contracts/Dependents'
 import Relation from './Relation'
 
 export type Entity = typeof Model | string
@@ -58,6 +60,26 @@ export default class MorphOne extends Relation {
     relatedRecord[this.type] = relatedRecord[this.type] || this.model.entity
   }
 
+  /**
+   * Get the foreign key values of the related records belonging to the
+   * given parent record.
+   */
+  getForeignKeyValues (parent: Record): Record {
+    return { [this.id]: parent[this.localKey], [this.type]: this.model.entity }
+  }
+
+  /**
+   * Get the records depending on the given parent records.
+   */
+  getDependents (collection: Collection): Dependents {
+    return {
+      entity: this.related.entity,
+      condition: this.dependOn(collection, this.localKey, this.id, [this.type, this.model.entity]),
+      keys: [this.id, this.type],
+      pivot: false
+    }
+  }
+
   /**
    * Convert given value to the appropriate value for the attribute.
    */
@@ -82,6 +104,19 @@ export default class MorphOne extends Relation {
     })
   }
 
+  /**
+   * Aggregate the related records of each model in the given collection. The
+   * records are read from the state as they are, without being loaded onto
+   * the models.
+   */
+  aggregate (query: Query, collection: Collection, _name: string, constraints: Constraint[], aggregator: Aggregator): any[] {
+    const relatedQuery = this.getRelation(query, this.related.entity, constraints)
+
+    this.addEagerConstraintForMorphOne(relatedQuery, collection, query.entity)
+
+    return this.aggregateDictionary(collection, this.mapSingleRelations(relatedQuery.select(), this.id), this.localKey, aggregator)
+  }
+
   /**
    * Set the constraints for an eager load of the relation.
    */
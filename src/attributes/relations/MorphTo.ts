@@ -4,6 +4,7 @@ import { Record, NormalizedData, Collection } from '../../data'
 import Model from '../../model/Model'
 import Query from '../../query/Query'
 import Constraint from '../../query/contracts/RelationshipConstraint'
+import Aggregator from '../../query/contracts/Aggregator'
 import Relation from './Relation'
 
 export type Entity = typeof Model | string
@@ -44,6 +45,17 @@ export default class MorphTo extends Relation {
     return
   }
 
+  /**
+   * Get the id and type values of the record associated with the given
+   * related model, or the values dissociating it when it's `null`.
+   */
+  getAssociateValues (related: Model | null): Record {
+    return {
+      [this.id]: related === null ? null : related.$id,
+      [this.type]: related === null ? null : related.$self().entity
+    }
+  }
+
   /**
    * Convert given value to the appropriate value for the attribute.
    */
@@ -81,6 +93,27 @@ export default class MorphTo extends Relation {
     })
   }
 
+  /**
+   * Aggregate the related records of each model in the given collection. The
+   * records are read from the state as they are, without being loaded onto
+   * the models.
+   */
+  aggregate (query: Query, collection: Collection, _name: string, constraints: Constraint[], aggregator: Aggregator): any[] {
+    const relateds = this.getTypes(collection).reduce<NormalizedData>((relateds, type) => {
+      const relatedQuery = this.getRelation(query, type, constraints)
+
+      relateds[type] = this.mapSingleRelations(relatedQuery.select(), '$id')
+
+      return relateds
+    }, {} as NormalizedData)
+
+    return collection.map((item) => {
+      const related = relateds[item[this.type]][item[this.id]]
+
+      return aggregator(related ? [related as Model] : [])
+    })
+  }
+
   /**
    * Get all types from the collection.
    */
@@ -5,6 +5,8 @@ import { Record, Records, NormalizedData, Collection } from '../../data'
 import Model from '../../model/Model'
 import Query from '../../query/Query'
 import Constraint from '../../query/contracts/RelationshipConstraint'
+import Aggregator from '../../query/contracts/Aggregator'
+import Dependents from '../contracts/Dependents'
 import Relation from './Relation'
 
 export type Entity = typeof Model | string
@@ -45,6 +47,12 @@ export default class MorphToMany extends Relation {
    */
   relatedKey: string
 
+  /**
+   * The fields of the pivot records to expose on the related records as
+   * `pivot` property. The pivot records are not exposed when it's `null`.
+   */
+  pivotFields: string[] | null = null
+
   /**
    * Create a new belongs to instance.
    */
@@ -69,6 +77,16 @@ export default class MorphToMany extends Relation {
     this.relatedKey = relatedKey
   }
 
+  /**
+   * Expose the given fields of the pivot records, along with the pivot keys,
+   * on the related records as `pivot` property.
+   */
+  withPivot (fields: string | string[] = []): this {
+    this.pivotFields = [...(this.pivotFields || []), ...(Array.isArray(fields) ? fields : [fields])]
+
+    return this
+  }
+
   /**
    * Define the normalizr schema for the relationship.
    */
@@ -84,6 +102,18 @@ export default class MorphToMany extends Relation {
     return
   }
 
+  /**
+   * Get the pivot records depending on the given parent records.
+   */
+  getDependents (collection: Collection): Dependents {
+    return {
+      entity: this.pivot.entity,
+      condition: this.dependOn(collection, this.parentKey, this.id, [this.type, this.model.entity]),
+      keys: [this.id, this.type],
+      pivot: true
+    }
+  }
+
   /**
    * Convert given value to the appropriate value for the attribute.
    */
@@ -101,11 +131,13 @@ export default class MorphToMany extends Relation {
 
     this.addEagerConstraintForPivot(pivotQuery, collection, query.entity)
 
+    this.addPivotConstraints(pivotQuery, relatedQuery)
+
     const pivots = pivotQuery.get()
 
     this.addEagerConstraintForRelated(relatedQuery, pivots)
 
-    const relateds = this.mapPivotRelations(pivots, relatedQuery)
+    const relateds = this.mapPivotRelations(pivots, relatedQuery.get())
 
     collection.forEach((item) => {
       const related = relateds[item[this.parentKey]]
@@ -114,6 +146,29 @@ export default class MorphToMany extends Relation {
     })
   }
 
+  /**
+   * Aggregate the related records of each model in the given collection. The
+   * records are read from the state as they are, without being loaded onto
+   * the models.
+   */
+  aggregate (query: Query, collection: Collection, _name: string, constraints: Constraint[], aggregator: Aggregator): any[] {
+    const relatedQuery = this.getRelation(query, this.related.entity, constraints)
+
+    const pivotQuery = query.newQuery(this.pivot.entity)
+
+    this.addEagerConstraintForPivot(pivotQuery, collection, query.entity)
+
+    this.addPivotConstraints(pivotQuery, relatedQuery)
+
+    const pivots = pivotQuery.select()
+
+    this.addEagerConstraintForRelated(relatedQuery, pivots)
+
+    const relateds = this.mapPivotRelations(pivots, relatedQuery.select(), null)
+
+    return this.aggregateDictionary(collection, relateds, this.parentKey, aggregator)
+  }
+
   /**
    * Set the constraints for the pivot relation.
    */
@@ -129,10 +184,11 @@ export default class MorphToMany extends Relation {
   }
 
   /**
-   * Create a new indexed map for the pivot relation.
+   * Create a new indexed map for the pivot relation. The given fields of the
+   * pivot records are exposed on the related records, unless it's `null`.
    */
-  mapPivotRelations (pivots: Collection, relatedQuery: Query): Records {
-    const relateds = this.mapManyRelations(relatedQuery.get(), this.relatedKey)
+  mapPivotRelations (pivots: Collection, records: Collection, fields: string[] | null = this.getPivotFields()): Records {
+    const relateds = this.mapManyRelations(records, this.relatedKey)
 
     return pivots.reduce((records, record) => {
       const id = record[this.id]
@@ -143,12 +199,21 @@ export default class MorphToMany extends Relation {
 
       const related = relateds[record[this.relatedId]]
 
-      records[id] = records[id].concat(related)
+      if (related) {
+        records[id] = records[id].concat(this.withPivotRecord(related as Collection, record, fields))
+      }
 
       return records
     }, {} as Records)
   }
 
+  /**
+   * Get the fields of the pivot records to expose on the related records.
+   */
+  getPivotFields (): string[] | null {
+    return this.pivotFields && [this.id, this.type, this.relatedId, ...this.pivotFields]
+  }
+
   /**
    * Create pivot records for the given records if needed.
    */
@@ -185,11 +250,28 @@ export default class MorphToMany extends Relation {
 
         [pivotKey]: {
           $id: pivotKey,
-          [this.relatedId]: relatedId,
-          [this.id]: parentId,
-          [this.type]: parent.entity
+          ...this.createPivot(parentId, relatedId, parent.entity)
         }
       }
     })
   }
+
+  /**
+   * Create the keys of the pivot record linking the given parent and
+   * related records.
+   */
+  createPivot (parentId: any, relatedId: any, type: string = this.model.entity): Record {
+    return {
+      [this.relatedId]: relatedId,
+      [this.id]: parentId,
+      [this.type]: type
+    }
+  }
+
+  /**
+   * Get the field of the pivot records that holds the related key.
+   */
+  getRelatedPivotKey (): string {
+    return this.relatedId
+  }
 }
@@ -5,6 +5,8 @@ import { Record, Records, NormalizedData, Collection } from '../../data'
 import Model from '../../model/Model'
 import Query from '../../query/Query'
 import Constraint from '../../query/contracts/RelationshipConstraint'
+import Aggregator from '../../query/contracts/Aggregator'
+import Dependents from '../contracts/Dependents'
 import Relation from './Relation'
 
 export type Entity = typeof Model | string
@@ -45,6 +47,12 @@ export default class MorphedByMany extends Relation {
    */
   relatedKey: string
 
+  /**
+   * The fields of the pivot records to expose on the related records as
+   * `pivot` property. The pivot records are not exposed when it's `null`.
+   */
+  pivotFields: string[] | null = null
+
   /**
    * Create a new belongs to instance.
    */
@@ -69,6 +77,16 @@ export default class MorphedByMany extends Relation {
     this.relatedKey = relatedKey
   }
 
+  /**
+   * Expose the given fields of the pivot records, along with the pivot keys,
+   * on the related records as `pivot` property.
+   */
+  withPivot (fields: string | string[] = []): this {
+    this.pivotFields = [...(this.pivotFields || []), ...(Array.isArray(fields) ? fields : [fields])]
+
+    return this
+  }
+
   /**
    * Define the normalizr schema for the relationship.
    */
@@ -84,6 +102,18 @@ export default class MorphedByMany extends Relation {
     return
   }
 
+  /**
+   * Get the pivot records depending on the given parent records.
+   */
+  getDependents (collection: Collection): Dependents {
+    return {
+      entity: this.pivot.entity,
+      condition: this.dependOn(collection, this.parentKey, this.relatedId, [this.type, this.related.entity]),
+      keys: [this.relatedId, this.type],
+      pivot: true
+    }
+  }
+
   /**
    * Make value to be set to model property. This method is used when
    * instantiating a model or creating a plain object from a model.
@@ -102,11 +132,13 @@ export default class MorphedByMany extends Relation {
 
     this.addEagerConstraintForPivot(pivotQuery, collection, this.related.entity)
 
+    this.addPivotConstraints(pivotQuery, relatedQuery)
+
     const pivots = pivotQuery.get()
 
     this.addEagerConstraintForRelated(relatedQuery, pivots)
 
-    const relateds = this.mapPivotRelations(pivots, relatedQuery)
+    const relateds = this.mapPivotRelations(pivots, relatedQuery.get())
 
     collection.forEach((item) => {
       const related = relateds[item[this.parentKey]]
@@ -115,6 +147,29 @@ export default class MorphedByMany extends Relation {
     })
   }
 
+  /**
+   * Aggregate the related records of each model in the given collection. The
+   * records are read from the state as they are, without being loaded onto
+   * the models.
+   */
+  aggregate (query: Query, collection: Collection, _name: string, constraints: Constraint[], aggregator: Aggregator): any[] {
+    const relatedQuery = this.getRelation(query, this.related.entity, constraints)
+
+    const pivotQuery = query.newQuery(this.pivot.entity)
+
+    this.addEagerConstraintForPivot(pivotQuery, collection, this.related.entity)
+
+    this.addPivotConstraints(pivotQuery, relatedQuery)
+
+    const pivots = pivotQuery.select()
+
+    this.addEagerConstraintForRelated(relatedQuery, pivots)
+
+    const relateds = this.mapPivotRelations(pivots, relatedQuery.select(), null)
+
+    return this.aggregateDictionary(collection, relateds, this.parentKey, aggregator)
+  }
+
   /**
    * Set the constraints for the pivot relation.
    */
@@ -130,10 +185,11 @@ export default class MorphedByMany extends Relation {
   }
 
   /**
-   * Create a new indexed map for the pivot relation.
+   * Create a new indexed map for the pivot relation. The given fields of the
+   * pivot records are exposed on the related records, unless it's `null`.
    */
-  mapPivotRelations (pivots: Collection, relatedQuery: Query): Records {
-    const relateds = this.mapManyRelations(relatedQuery.get(), this.relatedKey)
+  mapPivotRelations (pivots: Collection, records: Collection, fields: string[] | null = this.getPivotFields()): Records {
+    const relateds = this.mapManyRelations(records, this.relatedKey)
 
     return pivots.reduce((records, record) => {
       const id = record[this.relatedId]
@@ -144,12 +200,21 @@ export default class MorphedByMany extends Relation {
 
       const related = relateds[record[this.id]]
 
-      records[id] = records[id].concat(related)
+      if (related) {
+        records[id] = records[id].concat(this.withPivotRecord(related as Collection, record, fields))
+      }
 
       return records
     }, {} as Records)
   }
 
+  /**
+   * Get the fields of the pivot records to expose on the related records.
+   */
+  getPivotFields (): string[] | null {
+    return this.pivotFields && [this.relatedId, this.type, this.id, ...this.pivotFields]
+  }
+
   /**
    * Create pivot records for the given records if needed.
    */
@@ -180,11 +245,28 @@ export default class MorphedByMany extends Relation {
 
         [pivotKey]: {
           $id: pivotKey,
-          [this.relatedId]: parentId,
-          [this.id]: id,
-          [this.type]: this.related.entity
+          ...this.createPivot(parentId, id)
         }
       }
     })
   }
+
+  /**
+   * Create the keys of the pivot record linking the given parent and
+   * related records.
+   */
+  createPivot (parentId: any, relatedId: any): Record {
+    return {
+      [this.relatedId]: parentId,
+      [this.id]: relatedId,
+      [this.type]: this.related.entity
+    }
+  }
+
+  /**
+   * Get the field of the pivot records that holds the related key.
+   */
+  getRelatedPivotKey (): string {
+    return this.id
+  }
 }
@@ -4,9 +4,19 @@ import { Record, Records, NormalizedData, Collection } from '../../data'
 import Model from '../../model/Model'
 import Query from '../../query/Query'
 import Constraint from '../../query/contracts/RelationshipConstraint'
+import Aggregator from '../../query/contracts/Aggregator'
+import Projector from '../../query/projectors/Projector'
+import OnDelete from '../contracts/OnDelete'
+import Dependents from '../contracts/Dependents'
 import Attribute from '../Attribute'
 
 export default abstract class Relation extends Attribute {
+  /**
+   * What to do with the related records when the parent records get
+   * deleted.
+   */
+  deletePolicy: OnDelete | null = null
+
   /**
    * Define the normalizr schema for the relationship.
    */
@@ -28,6 +38,47 @@ export default abstract class Relation extends Attribute {
    */
   abstract make (value: any, parent: Record, key: string): Model | Model[] | null
 
+  /**
+   * Aggregate the related records of each model in the given collection.
+   */
+  abstract aggregate (query: Query, collection: Collection, name: string, constraints: Constraint[], aggregator: Aggregator): any[]
+
+  /**
+   * Set what to do with the related records when the parent records get
+   * deleted.
+   */
+  onDelete (policy: OnDelete): this {
+    this.deletePolicy = policy
+
+    return this
+  }
+
+  /**
+   * Get the records depending on the given parent records, which the delete
+   * policy applies to. It returns `null` when the relationship doesn't
+   * support the delete policies.
+   */
+  getDependents (_collection: Collection): Dependents | null {
+    return null
+  }
+
+  /**
+   * Create the condition that matches the records whose given field refers
+   * to any of the keys of the given collection, and optionally whose type
+   * field holds the given type.
+   */
+  protected dependOn (collection: Collection, localKey: string, foreignKey: string, type?: [string, string]): (record: Record) => boolean {
+    const keys = new Set(this.getKeys(collection, localKey).map(key => String(key)))
+
+    return (record) => {
+      if (type !== undefined && record[type[0]] !== type[1]) {
+        return false
+      }
+
+      return record[foreignKey] !== null && record[foreignKey] !== undefined && keys.has(String(record[foreignKey]))
+    }
+  }
+
   /**
    * Get relation query instance with constraint attached.
    */
@@ -54,6 +105,18 @@ export default abstract class Relation extends Attribute {
     }, [])
   }
 
+  /**
+   * Apply the aggregator to the related records of each model in the given
+   * collection, looking them up from the dictionary by the key of the model.
+   */
+  protected aggregateDictionary (collection: Collection, dictionary: Records, key: string, aggregator: Aggregator): any[] {
+    return collection.map((model) => {
+      const related = dictionary[model[key]]
+
+      return aggregator(Array.isArray(related) ? related : related ? [related] : [])
+    })
+  }
+
   /**
    * Create a new indexed map for the single relation by specified key.
    */
@@ -67,6 +130,34 @@ export default abstract class Relation extends Attribute {
     }, {} as Records)
   }
 
+  /**
+   * Add the pivot constraints set by the relationship constraints to the
+   * query for the pivot records.
+   */
+  protected addPivotConstraints (pivotQuery: Query, relatedQuery: Query): void {
+    pivotQuery.wheres.push(...relatedQuery.pivotWheres)
+    pivotQuery.orders.push(...relatedQuery.pivotOrders)
+  }
+
+  /**
+   * Create copies of the given related records that hold the given fields of
+   * the pivot record as `pivot` property. The records are copied since the
+   * same record may be related to many parents through different pivots.
+   */
+  protected withPivotRecord (relateds: Collection, pivot: Record, fields: string[] | null): Collection {
+    if (fields === null) {
+      return relateds
+    }
+
+    return relateds.map((related) => {
+      const copy: Record = new (related.$self())(related)
+
+      copy.pivot = Projector.pick(pivot, fields)
+
+      return copy as Model
+    })
+  }
+
   /**
    * Create a new indexed map for the many relation by specified key.
    */
@@ -0,0 +1,49 @@
+import Record from '../../data/Record'
+import Model from '../../model/Model'
+import Mutator from '../contracts/Mutator'
+import Type from './Type'
+
+export default class ArrayType extends Type {
+  /**
+   * The attribute to cast each item of the array with.
+   */
+  of: Type | null
+
+  /**
+   * Create a new array instance.
+   */
+  constructor (model: typeof Model, of: Type | null, value: any[] | null, mutator?: Mutator<any[] | null>) {
+    /* istanbul ignore next */
+    super(model, value, mutator)
+
+    this.of = of
+  }
+
+  /**
+   * Convert given value to the appropriate value for the attribute.
+   */
+  make (value: any, parent: Record, key: string): any[] | null {
+    return this.mutate(this.fix(value, parent, key), key)
+  }
+
+  /**
+   * Transform given data to the array, casting each item by the attribute
+   * of the items. The values that are not arrays fall back to the default
+   * value.
+   */
+  fix (value: any, parent: Record, key: string): any[] | null {
+    if (value === null && this.isNullable) {
+      return value
+    }
+
+    const items = Array.isArray(value) ? value : this.value
+
+    if (!Array.isArray(items)) {
+      return null
+    }
+
+    // The items are made with their index in the key, so the mutator of the
+    // array field doesn't get applied to each item.
+    return items.map((item, index) => this.of ? this.of.make(item, parent, `${key}.${index}`) : item)
+  }
+}
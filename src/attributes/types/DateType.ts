@@ -0,0 +1,54 @@
+import Record from '../../data/Record'
+import Model from '../../model/Model'
+import Mutator from '../contracts/Mutator'
+import Type from './Type'
+
+export default class DateType extends Type {
+  /**
+   * Create a new date instance.
+   */
+  constructor (model: typeof Model, value: Date | string | number | null, mutator?: Mutator<Date | null>) {
+    /* istanbul ignore next */
+    super(model, value, mutator)
+  }
+
+  /**
+   * Convert given value to the appropriate value for the attribute.
+   */
+  make (value: any, _parent: Record, key: string): Date | null {
+    return this.mutate(this.fix(value), key)
+  }
+
+  /**
+   * Transform given data to the date. ISO strings and timestamps are
+   * parsed, and the values that can't be parsed fall back to the default
+   * value.
+   */
+  fix (value: any): Date | null {
+    if (value === undefined) {
+      return this.parse(this.value)
+    }
+
+    if (value === null && this.isNullable) {
+      return value
+    }
+
+    const date = this.parse(value)
+
+    return date !== null ? date : this.parse(this.value)
+  }
+
+  /**
+   * Parse the given value to a new date, or `null` when it's not a valid
+   * date.
+   */
+  private parse (value: any): Date | null {
+    if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') {
+      return null
+    }
+
+    const date = new Date(value instanceof Date ? value.getTime() : value)
+
+    return isNaN(date.getTime()) ? null : date
+  }
+}
@@ -0,0 +1,41 @@
+import Record from '../../data/Record'
+import Model from '../../model/Model'
+import Mutator from '../contracts/Mutator'
+import Type from './Type'
+
+export default class Embedded extends Type {
+  /**
+   * The value model to hydrate the value into.
+   */
+  related: typeof Model
+
+  /**
+   * Create a new embedded instance.
+   */
+  constructor (model: typeof Model, related: typeof Model, mutator?: Mutator<Model | null>) {
+    /* istanbul ignore next */
+    super(model, null, mutator)
+
+    this.related = related
+  }
+
+  /**
+   * Convert given value to the appropriate value for the attribute.
+   */
+  make (value: any, _parent: Record, key: string): Model | null {
+    return this.mutate(this.fix(value), key)
+  }
+
+  /**
+   * Hydrate the given value into the value model. The values that are not
+   * objects fall back to a value model filled with its default values, or
+   * `null` when the attribute is nullable.
+   */
+  fix (value: any): Model | null {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      return new this.related(value)
+    }
+
+    return this.isNullable ? null : new this.related()
+  }
+}
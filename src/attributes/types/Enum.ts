@@ -0,0 +1,57 @@
+import Record from '../../data/Record'
+import Model from '../../model/Model'
+import Mutator from '../contracts/Mutator'
+import Type from './Type'
+
+export default class Enum extends Type {
+  /**
+   * The values the attribute accepts.
+   */
+  values: any[]
+
+  /**
+   * Create a new enum instance.
+   */
+  constructor (model: typeof Model, values: any[], value: any, mutator?: Mutator<any>) {
+    /* istanbul ignore next */
+    super(model, value, mutator)
+
+    this.values = values
+
+    this.rule(item => (item === null && this.isNullable) || this.values.indexOf(item) !== -1, key => `The ${key} field must be one of ${this.values.join(', ')}.`)
+  }
+
+  /**
+   * Convert given value to the appropriate value for the attribute.
+   */
+  make (value: any, _parent: Record, key: string): any {
+    return this.mutate(this.fix(value), key)
+  }
+
+  /**
+   * Transform given data to one of the values. Values of a different type,
+   * such as `'1'` for `1`, are matched by their string representation, and
+   * the values that don't match fall back to the default value.
+   */
+  fix (value: any): any {
+    if (value === undefined) {
+      return this.value
+    }
+
+    if (value === null && this.isNullable) {
+      return value
+    }
+
+    if (this.values.indexOf(value) !== -1) {
+      return value
+    }
+
+    for (let i = 0; i < this.values.length; i++) {
+      if (value !== null && String(this.values[i]) === String(value)) {
+        return this.values[i]
+      }
+    }
+
+    return this.value
+  }
+}
@@ -0,0 +1,65 @@
+import Utils from '../../support/Utils'
+import Record from '../../data/Record'
+import Model from '../../model/Model'
+import Mutator from '../contracts/Mutator'
+import Type from './Type'
+
+export interface Shape {
+  [key: string]: Type
+}
+
+export default class ObjectType extends Type {
+  /**
+   * The attributes to cast the properties of the object with.
+   */
+  shape: Shape
+
+  /**
+   * Create a new object instance.
+   */
+  constructor (model: typeof Model, shape: Shape, value: Record | null, mutator?: Mutator<Record | null>) {
+    /* istanbul ignore next */
+    super(model, value, mutator)
+
+    this.shape = shape
+  }
+
+  /**
+   * Convert given value to the appropriate value for the attribute.
+   */
+  make (value: any, _parent: Record, key: string): Record | null {
+    return this.mutate(this.fix(value, key), key)
+  }
+
+  /**
+   * Transform given data to the object, casting the properties declared in
+   * the shape. The properties not declared are kept as they are, and the
+   * values that are not objects fall back to the default value.
+   */
+  fix (value: any, key: string): Record | null {
+    if (value === null && this.isNullable) {
+      return value
+    }
+
+    const object = this.isObject(value) ? value : this.value
+
+    if (!this.isObject(object)) {
+      return null
+    }
+
+    const record: Record = { ...object }
+
+    Utils.forOwn(this.shape, (attr: Type, name: string) => {
+      record[name] = attr.make(object[name], object, `${key}.${name}`)
+    })
+
+    return record
+  }
+
+  /**
+   * Check if the given value is an object other than an array.
+   */
+  private isObject (value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value)
+  }
+}
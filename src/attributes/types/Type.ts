@@ -1,5 +1,7 @@
 import Model from '../../model/Model'
 import Mutator from '../contracts/Mutator'
+import Validator from '../contracts/Validator'
+import Rule from '../contracts/Rule'
 import Attribute from '../Attribute'
 
 export default abstract class Type extends Attribute {
@@ -13,11 +15,26 @@ export default abstract class Type extends Attribute {
    */
   isNullable: boolean = false
 
+  /**
+   * Whether if the attribute should be indexed.
+   */
+  isIndexed: boolean = false
+
+  /**
+   * Whether if the attribute should be sorted indexed.
+   */
+  isSortedIndexed: boolean = false
+
   /**
    * The mutator for the field.
    */
   mutator?: Mutator<any>
 
+  /**
+   * The validation rules for the field.
+   */
+  rules: Rule[] = []
+
   /**
    * Create a new type instance.
    */
@@ -37,6 +54,74 @@ export default abstract class Type extends Attribute {
     return this
   }
 
+  /**
+   * Set `isIndexed` to be `true`.
+   */
+  index (): this {
+    this.isIndexed = true
+
+    return this
+  }
+
+  /**
+   * Set `isSortedIndexed` to be `true`.
+   */
+  sortedIndex (): this {
+    this.isSortedIndexed = true
+
+    return this
+  }
+
+  /**
+   * Add a rule that fails when the value is `null`, `undefined`, an empty
+   * string or an empty array.
+   */
+  required (message?: string): this {
+    return this.rule(value => !Type.isEmpty(value), message || (key => `The ${key} field is required.`))
+  }
+
+  /**
+   * Add a rule that fails when the value is less than the given number. For
+   * strings and arrays, their length is compared instead.
+   */
+  min (min: number, message?: string): this {
+    return this.rule(value => Type.isEmpty(value) || Type.size(value) >= min, message || (key => `The ${key} field must be at least ${min}.`))
+  }
+
+  /**
+   * Add a rule that fails when the value is greater than the given number.
+   * For strings and arrays, their length is compared instead.
+   */
+  max (max: number, message?: string): this {
+    return this.rule(value => Type.isEmpty(value) || Type.size(value) <= max, message || (key => `The ${key} field may not be greater than ${max}.`))
+  }
+
+  /**
+   * Add a rule that fails when the value doesn't match the given pattern.
+   */
+  pattern (pattern: RegExp, message?: string): this {
+    return this.rule(value => Type.isEmpty(value) || pattern.test(`${value}`), message || (key => `The ${key} field format is invalid.`))
+  }
+
+  /**
+   * Add a rule that fails when the value is not a valid email address.
+   */
+  email (message?: string): this {
+    const pattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+    return this.rule(value => Type.isEmpty(value) || pattern.test(`${value}`), message || (key => `The ${key} field must be a valid email address.`))
+  }
+
+  /**
+   * Add a custom validation rule. The validator may return `false` or the
+   * error message to fail, and it may return a promise for async rules.
+   */
+  rule (validator: Validator, message: string | ((key: string) => string) = key => `The ${key} field is invalid.`): this {
+    this.rules.push({ validator, message })
+
+    return this
+  }
+
   /**
    * Mutate the given value by mutator.
    */
@@ -45,4 +130,19 @@ export default abstract class Type extends Attribute {
 
     return mutator ? mutator(value) : value
   }
+
+  /**
+   * Check if the given value should be regarded as empty. The rules other
+   * than `required` pass for empty values.
+   */
+  static isEmpty (value: any): boolean {
+    return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+  }
+
+  /**
+   * Get the size of the given value to be compared by `min` and `max`.
+   */
+  static size (value: any): number {
+    return typeof value === 'string' || Array.isArray(value) ? value.length : value
+  }
 }
@@ -0,0 +1,54 @@
+import Record from '../../data/Record'
+import Model from '../../model/Model'
+import Type from './Type'
+
+export type UidClosure = () => string
+
+export default class Uid extends Type {
+  /**
+   * The count of the ids generated by the default generator.
+   */
+  static count: number = 0
+
+  /**
+   * The function to generate the ids with, or `null` to use the default
+   * generator.
+   */
+  generator: UidClosure | null
+
+  /**
+   * Create a new uid instance.
+   */
+  constructor (model: typeof Model, generator?: UidClosure) {
+    /* istanbul ignore next */
+    super(model, null)
+
+    this.generator = generator || null
+  }
+
+  /**
+   * Convert given value to the appropriate value for the attribute.
+   */
+  make (value: any, _parent: Record, _key: string): string | number | null {
+    return typeof value === 'string' || typeof value === 'number' ? value : null
+  }
+
+  /**
+   * Generate a new id. The default generator skips the ids the given
+   * callback tells are already taken, such as the ones inserted with an id
+   * that looks like a generated one.
+   */
+  generate (isTaken: (id: string) => boolean = () => false): string {
+    if (this.generator !== null) {
+      return this.generator()
+    }
+
+    let id = `$uid${++Uid.count}`
+
+    while (isTaken(id)) {
+      id = `$uid${++Uid.count}`
+    }
+
+    return id
+  }
+}
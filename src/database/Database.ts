@@ -3,6 +3,9 @@ import Schema from '../schema/Schema'
 import Schemas from '../schema/Schemas'
 import Model from '../model/Model'
 import ModuleBuilder from '../modules/builder/Builder'
+import QueryCache from '../query/cache/QueryCache'
+import Transaction from './Transaction'
+import History from './History'
 import Entity from './Entity'
 import Models from './Models'
 import Modules from './Modules'
@@ -31,6 +34,25 @@ export default class Database {
    */
   schemas: Schemas = {}
 
+  /**
+   * The cache of the query results. It's enabled by the `cache` option
+   * when installing Vuex ORM.
+   */
+  cache: QueryCache = new QueryCache()
+
+  /**
+   * The history of the mutations to undo and redo them. It's enabled by the
+   * `history` option when installing Vuex ORM.
+   */
+  history: History = new History(this)
+
+  /**
+   * The transaction in progress on the state of the database, if any.
+   */
+  get activeTransaction (): Transaction | null {
+    return Transaction.find(this.store.state[this.namespace])
+  }
+
   /**
    * Initialize the database before a user can start using it.
    */
@@ -43,6 +65,51 @@ export default class Database {
     this.createSchema()
   }
 
+  /**
+   * Execute the callback in a transaction. The changes made to the entities
+   * during the transaction are committed as a single mutation when the
+   * callback finishes, or discarded when it throws. The after mutation
+   * hooks are called only after the changes were committed.
+   *
+   * The transaction is in progress on the state of the store until the
+   * callback settles, so the changes made to the same store by other code
+   * while the callback is waiting end up in the transaction as well.
+   */
+  async transaction<R> (callback: () => R | Promise<R>): Promise<R> {
+    // A transaction started inside another one joins the outer one.
+    if (this.activeTransaction !== null) {
+      return callback()
+    }
+
+    const transaction = new Transaction(this.store.state[this.namespace], this.entities.map(entity => entity.name))
+
+    Transaction.start(transaction)
+
+    // All changes made during the transaction are recorded as a single
+    // entry of the history.
+    this.history.begin()
+
+    let result: R
+
+    try {
+      result = await callback()
+    } catch (e) {
+      this.history.discard()
+
+      throw e
+    } finally {
+      Transaction.end(transaction)
+    }
+
+    this.store.commit(`${this.namespace}/$transaction`, { transaction })
+
+    this.history.end()
+
+    transaction.flush()
+
+    return result
+  }
+
   /**
    * Register a model and a module to Database.
    */
@@ -0,0 +1,246 @@
+import * as Data from '../data'
+import RootState from '../modules/contracts/RootState'
+import Indexer from '../query/indexes/Indexer'
+import Database from './Database'
+
+export interface HistoryChange {
+  /**
+   * The record before the change. It's `undefined` when the record was
+   * created by the change.
+   */
+  before: Data.Instance | undefined
+
+  /**
+   * The record after the change. It's `undefined` when the record was
+   * deleted by the change.
+   */
+  after: Data.Instance | undefined
+}
+
+export interface HistoryEntry {
+  /**
+   * The changed records keyed by the entity and the id.
+   */
+  [entity: string]: { [id: string]: HistoryChange }
+}
+
+export default class History {
+  /**
+   * The database the history belongs to.
+   */
+  database: Database
+
+  /**
+   * Whether if the mutations should be recorded.
+   */
+  enabled: boolean = false
+
+  /**
+   * The maximum number of the entries to keep. The oldest entry gets
+   * dropped when the history is full.
+   */
+  maxDepth: number = 100
+
+  /**
+   * The entries that can be undone, the latest one last.
+   */
+  undoStack: HistoryEntry[] = []
+
+  /**
+   * The entries that can be redone, the latest undone one last.
+   */
+  redoStack: HistoryEntry[] = []
+
+  /**
+   * The entry being recorded.
+   */
+  current: HistoryEntry | null = null
+
+  /**
+   * Create a new history instance.
+   */
+  constructor (database: Database) {
+    this.database = database
+  }
+
+  /**
+   * Record the changes made by the callback as a single entry. When an entry
+   * is already being recorded, such as during a transaction, the changes
+   * are added to that entry instead.
+   */
+  record<R> (callback: () => R): R {
+    if (this.current !== null) {
+      return callback()
+    }
+
+    this.begin()
+
+    try {
+      const result = callback()
+
+      this.end()
+
+      return result
+    } catch (e) {
+      this.discard()
+
+      throw e
+    }
+  }
+
+  /**
+   * Start recording a new entry.
+   */
+  begin (): void {
+    this.current = {}
+  }
+
+  /**
+   * Finish recording the current entry and push it to the history.
+   */
+  end (): void {
+    const entry = this.current
+
+    this.current = null
+
+    if (entry === null || Object.keys(entry).length === 0) {
+      return
+    }
+
+    this.undoStack.push(entry)
+    this.redoStack = []
+
+    while (this.undoStack.length > this.maxDepth) {
+      this.undoStack.shift()
+    }
+  }
+
+  /**
+   * Stop recording the current entry without pushing it to the history.
+   */
+  discard (): void {
+    this.current = null
+  }
+
+  /**
+   * Track the change of the data of the given entity to the current entry.
+   * Only the records that were changed are kept, so the memory the history
+   * takes grows by the size of the changes rather than the size of the data.
+   */
+  track (entity: string, previous: Data.Instances, instances: Data.Instances, removed: string[] = []): void {
+    if (!this.enabled || this.current === null) {
+      return
+    }
+
+    const changes = this.current[entity] || (this.current[entity] = {})
+
+    const change = (id: string, after: Data.Instance | undefined) => {
+      if (id in changes) {
+        changes[id].after = after
+
+        return
+      }
+
+      previous[id] !== after && (changes[id] = { before: previous[id], after })
+    }
+
+    Object.keys(instances).forEach(id => change(id, instances[id]))
+
+    removed.forEach(id => change(id, undefined))
+  }
+
+  /**
+   * Check if there's any entry that can be undone.
+   */
+  canUndo (): boolean {
+    return this.undoStack.length > 0
+  }
+
+  /**
+   * Check if there's any entry that can be redone.
+   */
+  canRedo (): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Undo the latest entry.
+   */
+  undo (): void {
+    const entry = this.undoStack.pop()
+
+    if (entry === undefined) {
+      return
+    }
+
+    this.commit(entry, true)
+
+    this.redoStack.push(entry)
+  }
+
+  /**
+   * Redo the latest undone entry.
+   */
+  redo (): void {
+    const entry = this.redoStack.pop()
+
+    if (entry === undefined) {
+      return
+    }
+
+    this.commit(entry, false)
+
+    this.undoStack.push(entry)
+  }
+
+  /**
+   * Remove all entries.
+   */
+  clear (): void {
+    this.undoStack = []
+    this.redoStack = []
+  }
+
+  /**
+   * Commit the mutation to apply the given entry to the store.
+   */
+  private commit (entry: HistoryEntry, undo: boolean): void {
+    if (this.database.activeTransaction !== null) {
+      throw new Error('The history can\'t be undone or redone inside a transaction.')
+    }
+
+    this.database.store.commit(`${this.database.namespace}/$history`, { entry, undo })
+  }
+
+  /**
+   * Apply the given entry to the state, restoring the records to the ones
+   * before the changes when undoing, or after the changes when redoing.
+   */
+  static apply (state: RootState, entry: HistoryEntry, undo: boolean): void {
+    Object.keys(entry).forEach((entity) => {
+      const entityState = state[entity]
+      const previous = entityState.data
+      const data = { ...previous }
+      const instances: Data.Instances = {}
+      const removed: string[] = []
+
+      Object.keys(entry[entity]).forEach((id) => {
+        const change = entry[entity][id]
+        const record = undo ? change.before : change.after
+
+        if (record === undefined) {
+          delete data[id]
+          removed.push(id)
+
+          return
+        }
+
+        data[id] = instances[id] = record
+      })
+
+      entityState.data = data
+
+      Indexer.update(entityState, previous, instances, removed)
+    })
+  }
+}
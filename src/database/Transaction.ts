@@ -0,0 +1,88 @@
+import RootState from '../modules/contracts/RootState'
+
+export default class Transaction {
+  /**
+   * The transactions in progress keyed by the root state they were started
+   * on, so that each store only sees its own transaction.
+   */
+  static transactions: WeakMap<RootState, Transaction> = new WeakMap()
+
+  /**
+   * The root state of the store the transaction was started on.
+   */
+  source: RootState
+
+  /**
+   * The copy of the root state the changes are made to during the
+   * transaction. The data of each entity is shared with the source until
+   * it gets replaced by a change, so creating the copy is cheap.
+   */
+  state: RootState
+
+  /**
+   * The callbacks to be called after the changes were committed, such as
+   * the after mutation hooks.
+   */
+  callbacks: (() => void)[] = []
+
+  /**
+   * Create a new transaction instance.
+   */
+  constructor (source: RootState, entities: string[]) {
+    this.source = source
+
+    this.state = entities.reduce<RootState>((state, entity) => {
+      state[entity] = { ...source[entity] }
+
+      return state
+    }, { ...source })
+  }
+
+  /**
+   * Get the transaction in progress on the given root state, if any.
+   */
+  static find (state: RootState): Transaction | null {
+    return this.transactions.get(state) || null
+  }
+
+  /**
+   * Mark the given transaction as in progress on its root state.
+   */
+  static start (transaction: Transaction): void {
+    this.transactions.set(transaction.source, transaction)
+  }
+
+  /**
+   * Mark the given transaction as ended.
+   */
+  static end (transaction: Transaction): void {
+    this.transactions.delete(transaction.source)
+  }
+
+  /**
+   * Register the callback to be called after the changes were committed.
+   */
+  defer (callback: () => void): void {
+    this.callbacks.push(callback)
+  }
+
+  /**
+   * Get the names of the entities whose data were changed.
+   */
+  getChangedEntities (): string[] {
+    return Object.keys(this.state).filter((entity) => {
+      return entity !== '$name' && this.state[entity] !== this.source[entity] && this.state[entity].data !== this.source[entity].data
+    })
+  }
+
+  /**
+   * Call the callbacks registered to be called after the commit.
+   */
+  flush (): void {
+    const callbacks = this.callbacks
+
+    this.callbacks = []
+
+    callbacks.forEach(callback => callback())
+  }
+}
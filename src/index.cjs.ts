@@ -6,14 +6,23 @@ import Container from './container/Container'
 import Database from './database/Database'
 import Model from './model/Model'
 import Fields from './model/contracts/Fields'
+import ValidationError from './model/ValidationError'
 import Query from './query/Query'
+import LiveQuery from './query/live/LiveQuery'
+import Aggregates from './query/aggregates/Aggregates'
 import Attribute from './attributes/Attribute'
 import Type from './attributes/types/Type'
 import Attr from './attributes/types/Attr'
 import String from './attributes/types/String'
 import Number from './attributes/types/Number'
 import Boolean from './attributes/types/Boolean'
+import DateType from './attributes/types/DateType'
+import ArrayType from './attributes/types/ArrayType'
+import ObjectType from './attributes/types/ObjectType'
+import Enum from './attributes/types/Enum'
+import Embedded from './attributes/types/Embedded'
 import Increment from './attributes/types/Increment'
+import Uid from './attributes/types/Uid'
 import Relation from './attributes/relations/Relation'
 import HasOne from './attributes/relations/HasOne'
 import BelongsTo from './attributes/relations/BelongsTo'
@@ -43,6 +52,7 @@ export interface VuexORM {
   Container: typeof Container
   Database: typeof Database
   Model: typeof Model
+  ValidationError: typeof ValidationError
   Fields: Fields
   Query: typeof Query
   Attribute: typeof Attribute
@@ -51,7 +61,13 @@ export interface VuexORM {
   String: typeof String
   Number: typeof Number
   Boolean: typeof Boolean
+  DateType: typeof DateType
+  ArrayType: typeof ArrayType
+  ObjectType: typeof ObjectType
+  Enum: typeof Enum
+  Embedded: typeof Embedded
   Increment: typeof Increment
+  Uid: typeof Uid
   Relation: typeof Relation
   HasOne: typeof HasOne
   BelongsTo: typeof BelongsTo
@@ -69,6 +85,8 @@ export interface VuexORM {
   RootGetters: RootGettersContract
   RootActions: RootActionsContract
   RootMutations: RootMutationsContract
+  LiveQuery: typeof LiveQuery
+  Aggregates: typeof Aggregates
 }
 
 export default {
@@ -77,13 +95,20 @@ export default {
   Container,
   Database,
   Model,
+  ValidationError,
   Attribute,
   Type,
   Attr,
   String,
   Number,
   Boolean,
+  DateType,
+  ArrayType,
+  ObjectType,
+  Enum,
+  Embedded,
   Increment,
+  Uid,
   Relation,
   HasOne,
   BelongsTo,
@@ -101,5 +126,7 @@ export default {
   RootGetters,
   RootActions,
   RootMutations,
-  Query
+  Query,
+  LiveQuery,
+  Aggregates
 } as VuexORM
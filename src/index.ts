@@ -6,13 +6,21 @@ import Container from './container/Container'
 import Database from './database/Database'
 import Model from './model/Model'
 import Fields from './model/contracts/Fields'
+import ValidationErrors from './model/contracts/ValidationErrors'
+import ValidationError from './model/ValidationError'
 import Attribute from './attributes/Attribute'
 import Type from './attributes/types/Type'
 import Attr from './attributes/types/Attr'
 import String from './attributes/types/String'
 import Number from './attributes/types/Number'
 import Boolean from './attributes/types/Boolean'
+import DateType from './attributes/types/DateType'
+import ArrayType from './attributes/types/ArrayType'
+import ObjectType from './attributes/types/ObjectType'
+import Enum from './attributes/types/Enum'
+import Embedded from './attributes/types/Embedded'
 import Increment from './attributes/types/Increment'
+import Uid from './attributes/types/Uid'
 import Relation from './attributes/relations/Relation'
 import HasOne from './attributes/relations/HasOne'
 import BelongsTo from './attributes/relations/BelongsTo'
@@ -36,6 +44,8 @@ import RootGettersContract from './modules/contracts/RootGetters'
 import RootActionsContract from './modules/contracts/RootActions'
 import RootMutationsContract from './modules/contracts/RootMutations'
 import Query from './query/Query'
+import LiveQuery from './query/live/LiveQuery'
+import Aggregates from './query/aggregates/Aggregates'
 import Record from './data/Record'
 import Records from './data/Records'
 import NormalizedData from './data/NormalizedData'
@@ -53,13 +63,20 @@ export interface VuexORM {
   Container: typeof Container
   Database: typeof Database
   Model: typeof Model
+  ValidationError: typeof ValidationError
   Attribute: typeof Attribute
   Type: typeof Type
   Attr: typeof Attr
   String: typeof String
   Number: typeof Number
   Boolean: typeof Boolean
+  DateType: typeof DateType
+  ArrayType: typeof ArrayType
+  ObjectType: typeof ObjectType
+  Enum: typeof Enum
+  Embedded: typeof Embedded
   Increment: typeof Increment
+  Uid: typeof Uid
   Relation: typeof Relation
   HasOne: typeof HasOne
   BelongsTo: typeof BelongsTo
@@ -78,6 +95,8 @@ export interface VuexORM {
   RootActions: RootActionsContract
   RootMutations: RootMutationsContract
   Query: typeof Query
+  LiveQuery: typeof LiveQuery
+  Aggregates: typeof Aggregates
 }
 
 export {
@@ -88,13 +107,21 @@ export {
   Database,
   Model,
   Fields,
+  ValidationErrors,
+  ValidationError,
   Attribute,
   Type,
   Attr,
   String,
   Number,
   Boolean,
+  DateType,
+  ArrayType,
+  ObjectType,
+  Enum,
+  Embedded,
   Increment,
+  Uid,
   Relation,
   HasOne,
   BelongsTo,
@@ -113,6 +140,8 @@ export {
   RootActions,
   RootMutations,
   Query,
+  LiveQuery,
+  Aggregates,
   Record,
   Records,
   NormalizedData,
@@ -131,13 +160,20 @@ export default {
   Container,
   Database,
   Model,
+  ValidationError,
   Attribute,
   Type,
   Attr,
   String,
   Number,
   Boolean,
+  DateType,
+  ArrayType,
+  ObjectType,
+  Enum,
+  Embedded,
   Increment,
+  Uid,
   Relation,
   HasOne,
   BelongsTo,
@@ -155,5 +191,7 @@ export default {
   RootGetters,
   RootActions,
   RootMutations,
-  Query
+  Query,
+  LiveQuery,
+  Aggregates
 } as VuexORM
@@ -0,0 +1,156 @@
+import Utils from '../support/Utils'
+import * as Attributes from '../attributes'
+import Record from '../data/Record'
+import Model from './Model'
+
+export default class ChangeTracker {
+  /**
+   * The original attribute values of the model instances, taken when they
+   * were last filled. They're kept outside of the instances so that they
+   * don't show up as the fields of the instances.
+   */
+  static originals: WeakMap<Model, Record> = new WeakMap()
+
+  /**
+   * The number of callbacks being run by `lazily`. While it's above zero,
+   * the models being filled don't take the deep snapshot of their values.
+   */
+  static depth: number = 0
+
+  /**
+   * Run the given callback, letting the models filled during the callback
+   * keep the references to their original values instead of the deep
+   * snapshot. It's for the models built by the query, whose values come
+   * from the records in the store that are never changed in place.
+   */
+  static lazily<T> (callback: () => T): T {
+    this.depth++
+
+    try {
+      return callback()
+    } finally {
+      this.depth--
+    }
+  }
+
+  /**
+   * Remember the current attribute values of the given model as the
+   * original values. When the model is filled lazily from another model,
+   * the values of that model are remembered instead, so that changing the
+   * embedded value models of the filled model in place still makes it dirty.
+   */
+  static sync (model: Model, record?: Record): void {
+    const lazy = this.depth > 0
+    const source = lazy && record instanceof Model && record.$self() === model.$self() ? record : model
+
+    const original = this.getAttributeKeys(model).reduce<Record>((original, key) => {
+      original[key] = lazy ? source[key] : this.clone(model[key])
+
+      return original
+    }, {})
+
+    this.originals.set(model, original)
+  }
+
+  /**
+   * Let the copy of the given model share its original values, so that the
+   * copy is dirty only when the model was.
+   */
+  static copy (model: Model, copy: Model): void {
+    const original = this.originals.get(model)
+
+    original !== undefined && this.originals.set(copy, original)
+  }
+
+  /**
+   * Get the original attribute values of the given model. A model created
+   * without being filled, such as the one retrieved by `only`, has no
+   * original values.
+   */
+  static getOriginal (model: Model): Record {
+    return this.clone(this.originals.get(model) || {})
+  }
+
+  /**
+   * Get the attributes of the given model that were changed since they were
+   * last filled, along with their current values.
+   */
+  static getChanges (model: Model): Record {
+    const original = this.originals.get(model) || {}
+
+    return this.getAttributeKeys(model).reduce<Record>((changes, key) => {
+      if (!(key in model)) {
+        return changes
+      }
+
+      if (!(key in original) || !this.isEqual(model[key], original[key])) {
+        changes[key] = model[key]
+      }
+
+      return changes
+    }, {})
+  }
+
+  /**
+   * Check if the given attribute of the model, or any attribute when the
+   * attribute is omitted, was changed since it was last filled.
+   */
+  static isDirty (model: Model, key?: string): boolean {
+    const changes = this.getChanges(model)
+
+    return key === undefined ? Object.keys(changes).length > 0 : key in changes
+  }
+
+  /**
+   * Restore the original attribute values of the given model.
+   */
+  static reset (model: Model): void {
+    const original = this.getOriginal(model)
+
+    Object.keys(original).forEach((key) => {
+      model[key] = original[key]
+    })
+  }
+
+  /**
+   * Create a deep clone of the given value. The embedded value models are
+   * cloned as well, so that changing them in place makes the model dirty.
+   */
+  private static clone (value: any): any {
+    if (value instanceof Model) {
+      return new (value.$self())(value)
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.clone(item))
+    }
+
+    return Utils.cloneDeep(value)
+  }
+
+  /**
+   * Check if the given values are equivalent, comparing the embedded value
+   * models by their serialized values.
+   */
+  private static isEqual (value: any, other: any): boolean {
+    if (value instanceof Model && other instanceof Model) {
+      return value.$self() === other.$self() && Utils.isEqual(value.$toJson(), other.$toJson())
+    }
+
+    if (Array.isArray(value) && Array.isArray(other)) {
+      return value.length === other.length && value.every((item, index) => this.isEqual(item, other[index]))
+    }
+
+    return Utils.isEqual(value, other)
+  }
+
+  /**
+   * Get the keys of the attribute fields of the given model. Relationships
+   * are not tracked.
+   */
+  private static getAttributeKeys (model: Model): string[] {
+    const fields = model.$fields()
+
+    return Object.keys(fields).filter(key => fields[key] instanceof Attributes.Type)
+  }
+}
@@ -0,0 +1,90 @@
+import Record from '../data/Record'
+import { ComputedOptions } from './contracts/Computed'
+import Model from './Model'
+
+export default class ComputedProperties {
+  /**
+   * The models whose computed properties were already defined.
+   */
+  static defined: WeakSet<typeof Model> = new WeakSet()
+
+  /**
+   * The cached values of the computed properties keyed by the model
+   * instances.
+   */
+  static caches: WeakMap<Model, Record> = new WeakMap()
+
+  /**
+   * Define the computed properties of the given model as getters on its
+   * prototype, so that they're evaluated lazily for each instance without
+   * showing up as the fields of the instances.
+   */
+  static define (model: typeof Model): void {
+    if (this.defined.has(model)) {
+      return
+    }
+
+    const fields = model.getFields()
+    const computed = this.getComputed(model)
+
+    Object.keys(computed).forEach((name) => {
+      if (name in fields) {
+        throw new Error(`The computed property \`${name}\` of \`${model.entity}\` conflicts with the field of the same name.`)
+      }
+
+      const { get, cache } = computed[name]
+
+      Object.defineProperty(model.prototype, name, {
+        configurable: true,
+        enumerable: false,
+        get (this: Model): any {
+          return cache ? ComputedProperties.remember(this, name, get) : get.call(this, this)
+        }
+      })
+    })
+
+    this.defined.add(model)
+  }
+
+  /**
+   * Get the computed properties of the given model normalized to options.
+   */
+  static getComputed (model: typeof Model): { [name: string]: ComputedOptions } {
+    const computed = model.computed()
+
+    return Object.keys(computed).reduce<{ [name: string]: ComputedOptions }>((options, name) => {
+      const definition = computed[name]
+
+      options[name] = typeof definition === 'function' ? { get: definition } : definition
+
+      return options
+    }, {})
+  }
+
+  /**
+   * Forget the cached values of the given model instance.
+   */
+  static flush (model: Model): void {
+    this.caches.delete(model)
+  }
+
+  /**
+   * Get the cached value of the computed property, evaluating it when it's
+   * not cached yet.
+   */
+  private static remember (model: Model, name: string, get: (model: Model) => any): any {
+    let cache = this.caches.get(model)
+
+    if (cache === undefined) {
+      cache = {}
+
+      this.caches.set(model, cache)
+    }
+
+    if (!(name in cache)) {
+      cache[name] = get.call(model, model)
+    }
+
+    return cache[name]
+  }
+}
@@ -11,14 +11,27 @@ import State from '../modules/contracts/State'
 import * as Attributes from '../attributes'
 import Mutator from '../attributes/contracts/Mutator'
 import Mutators from '../attributes/contracts/Mutators'
+import { Shape } from '../attributes/types/ObjectType'
+import { UidClosure } from '../attributes/types/Uid'
 import Predicate from '../query/contracts/Predicate'
+import GlobalScope from '../query/contracts/GlobalScope'
+import ScopedQuery from '../query/contracts/ScopedQuery'
 import Query from '../query/Query'
+import Loader from '../query/loaders/Loader'
+import Constraint from '../query/contracts/RelationshipConstraint'
 import * as Payloads from '../modules/payloads/Actions'
 import Fields from './contracts/Fields'
 import FieldCache from './contracts/FieldCache'
 import ModelState from './contracts/State'
 import InheritanceTypes from './contracts/InheritanceTypes'
+import ValidationErrors from './contracts/ValidationErrors'
+import Computed from './contracts/Computed'
+import SerializeOptions from './contracts/SerializeOptions'
 import Serializer from './Serializer'
+import ChangeTracker from './ChangeTracker'
+import ComputedProperties from './ComputedProperties'
+import Validation from './Validation'
+import RelationManager from './RelationManager'
 
 export default class Model {
   /**
@@ -41,6 +54,19 @@ export default class Model {
    */
   static typeKey: string = 'type'
 
+  /**
+   * The name of the field that holds the time the record was soft deleted.
+   * When it's set, deleting the record only sets the time, and the query
+   * excludes the soft deleted records unless asked otherwise.
+   */
+  static softDeletes: string | null = null
+
+  /**
+   * Whether if the changes of the records should be recorded to the history
+   * to be undone and redone.
+   */
+  static history: boolean = true
+
   /**
    * Vuex Store state definition.
    */
@@ -70,6 +96,38 @@ export default class Model {
     return {}
   }
 
+  /**
+   * The fields that should be indexed to speed up the where clauses
+   * looking up records by equality.
+   */
+  static indexes (): string[] {
+    return []
+  }
+
+  /**
+   * The fields that should be kept sorted in an index to speed up ordering
+   * and range where clauses.
+   */
+  static sortedIndexes (): string[] {
+    return []
+  }
+
+  /**
+   * The local scopes of the model. Each scope is available as a method of
+   * the query, which applies the scope with the given arguments.
+   */
+  static scopes (): object {
+    return {}
+  }
+
+  /**
+   * The global scopes of the model, applied to every query of the model
+   * unless removed by `withoutGlobalScope`.
+   */
+  static globalScopes (): { [name: string]: GlobalScope } {
+    return {}
+  }
+
   /**
    * Create an attr attribute.
    */
@@ -105,6 +163,50 @@ export default class Model {
     return new Attributes.Increment(this)
   }
 
+  /**
+   * Create a date attribute.
+   */
+  static date (value: Date | string | number | null, mutator?: Mutator<Date | null>): Attributes.DateType {
+    return new Attributes.DateType(this, value, mutator)
+  }
+
+  /**
+   * Create an array attribute. Each item is cast by the given attribute.
+   */
+  static array (of: Attributes.Type | null = null, value: any[] | null = [], mutator?: Mutator<any[] | null>): Attributes.ArrayType {
+    return new Attributes.ArrayType(this, of, value, mutator)
+  }
+
+  /**
+   * Create an object attribute. The properties declared in the shape are
+   * cast by the given attributes.
+   */
+  static object (shape: Shape = {}, value: Record | null = {}, mutator?: Mutator<Record | null>): Attributes.ObjectType {
+    return new Attributes.ObjectType(this, shape, value, mutator)
+  }
+
+  /**
+   * Create an enum attribute.
+   */
+  static enum (values: any[], value: any = null, mutator?: Mutator<any>): Attributes.Enum {
+    return new Attributes.Enum(this, values, value, mutator)
+  }
+
+  /**
+   * Create an embedded attribute that hydrates the value into the given
+   * value model. Wrap it with `array` for the arrays of the values.
+   */
+  static embedded (related: typeof Model, mutator?: Mutator<Model | null>): Attributes.Embedded {
+    return new Attributes.Embedded(this, related, mutator)
+  }
+
+  /**
+   * Create a uid attribute.
+   */
+  static uid (generator?: UidClosure): Attributes.Uid {
+    return new Attributes.Uid(this, generator)
+  }
+
   /**
    * Create a has one relationship.
    */
@@ -253,6 +355,14 @@ export default class Model {
     return {}
   }
 
+  /**
+   * Read-only properties derived from the fields. They're evaluated lazily
+   * each time they're accessed, or only once per instance when cached.
+   */
+  static computed (): Computed {
+    return {}
+  }
+
   /**
    * Types mapping used to dispatch entities based on their discriminator field
    */
@@ -300,6 +410,12 @@ export default class Model {
    * Commit Vuex Mutation.
    */
   static commit (callback: (state: State) => void) {
+    // The callback may change the records in place, which can't be undone
+    // when the transaction fails.
+    if (this.database().activeTransaction !== null) {
+      throw new Error('The `commit` method can\'t be used inside a transaction.')
+    }
+
     this.store().commit(`${this.database().namespace}/$mutate`, {
       entity: this.entity,
       callback
@@ -318,11 +434,53 @@ export default class Model {
       return this.cachedFields[this.entity]
     }
 
-    this.cachedFields[this.entity] = this.fields()
+    const fields = this.fields()
+
+    // Add the soft delete field when the model doesn't define it on its own.
+    if (this.softDeletes !== null && !(this.softDeletes in fields)) {
+      fields[this.softDeletes] = this.attr(null)
+    }
+
+    this.cachedFields[this.entity] = fields
 
     return this.cachedFields[this.entity]
   }
 
+  /**
+   * Get the names of the fields that should be indexed, declared either by
+   * the `indexes` method or by the `index` modifier of the attributes.
+   */
+  static getIndexedFields (): string[] {
+    return this.collectIndexedFields(this.indexes(), field => field.isIndexed)
+  }
+
+  /**
+   * Get the names of the fields that should be sorted indexed, declared
+   * either by the `sortedIndexes` method or by the `sortedIndex` modifier
+   * of the attributes.
+   */
+  static getSortedIndexedFields (): string[] {
+    return this.collectIndexedFields(this.sortedIndexes(), field => field.isSortedIndexed)
+  }
+
+  /**
+   * Merge the given declared fields with the attributes matching the given
+   * condition.
+   */
+  static collectIndexedFields (declared: string[], condition: (field: Attributes.Type) => boolean): string[] {
+    const fields = this.getFields()
+
+    return Object.keys(fields).reduce((indexes, key) => {
+      const field = fields[key]
+
+      if (field instanceof Attributes.Type && condition(field) && !indexes.includes(key)) {
+        indexes.push(key)
+      }
+
+      return indexes
+    }, declared.slice())
+  }
+
   /**
    * Get all records.
    */
@@ -347,10 +505,27 @@ export default class Model {
   /**
    * Get query instance.
    */
-  static query<T extends typeof Model> (this: T): Query<InstanceOf<T>> {
+  static query<T extends typeof Model> (this: T): ScopedQuery<InstanceOf<T>, ReturnType<T['scopes']>> {
     return this.getters('query')()
   }
 
+  /**
+   * Load the given relationships onto the given models that were already
+   * retrieved. It returns the copies of the models with the relationships
+   * loaded, leaving the given models untouched.
+   */
+  static load<T extends typeof Model> (this: T, collection: Collection<InstanceOf<T>>, relations: string | string[], constraint: Constraint | null = null): Collection<InstanceOf<T>> {
+    return Loader.load(this.query(), collection, relations, constraint) as Collection<InstanceOf<T>>
+  }
+
+  /**
+   * Load the given relationships onto the given models that don't have
+   * them loaded yet. It returns the copies of the models.
+   */
+  static loadMissing<T extends typeof Model> (this: T, collection: Collection<InstanceOf<T>>, relations: string | string[]): Collection<InstanceOf<T>> {
+    return Loader.loadMissing(this.query(), collection, relations) as Collection<InstanceOf<T>>
+  }
+
   /**
    * Create new data with all fields filled by default values.
    */
@@ -404,6 +579,38 @@ export default class Model {
     return this.dispatch('deleteAll')
   }
 
+  /**
+   * Delete records that matches the given condition from the store, even
+   * when the model soft deletes records.
+   */
+  static forceDelete<M extends typeof Model> (this: M, id: string | number | (number | string)[]): Promise<Item<InstanceOf<M>>>
+  static forceDelete<M extends typeof Model> (this: M, condition: Predicate<InstanceOf<M>>): Promise<Collection<InstanceOf<M>>>
+  static forceDelete<M extends typeof Model> (this: M, payload: any): any {
+    return this.dispatch('forceDelete', payload)
+  }
+
+  /**
+   * Restore soft deleted records that matches the given condition.
+   */
+  static restore<M extends typeof Model> (this: M, id: string | number | (number | string)[]): Promise<Item<InstanceOf<M>>>
+  static restore<M extends typeof Model> (this: M, condition: Predicate<InstanceOf<M>>): Promise<Collection<InstanceOf<M>>>
+  static restore<M extends typeof Model> (this: M, payload: any): any {
+    return this.dispatch('restore', payload)
+  }
+
+  /**
+   * Check if the given record is soft deleted.
+   */
+  static isTrashed (record: Record): boolean {
+    if (this.softDeletes === null) {
+      return false
+    }
+
+    const value = record[this.softDeletes]
+
+    return value !== null && value !== undefined
+  }
+
   /**
    * Get the index ID value from the given record. An index ID is a value that
    * used as a key for records within the Vuex Store.
@@ -512,6 +719,7 @@ export default class Model {
   static getAttributeClass (name: string): typeof Attributes.Attribute {
     switch (name) {
       case 'increment': return Attributes.Increment
+      case 'uid': return Attributes.Uid
 
       default:
         throw Error(`The attribute name "${name}" doesn't exist.`)
@@ -550,6 +758,20 @@ export default class Model {
     return Object.keys(this.getIncrementFields()).length > 0
   }
 
+  /**
+   * Get all `uid` fields from the schema.
+   */
+  static getUidFields (): { [key: string]: Attributes.Uid } {
+    return this.getFieldsByAttribute('uid') as { [key: string]: Attributes.Uid }
+  }
+
+  /**
+   * Check if fields contains the `uid` field type.
+   */
+  static hasUidFields (): boolean {
+    return Object.keys(this.getUidFields()).length > 0
+  }
+
   /**
    * Get all `belongsToMany` fields from the schema.
    */
@@ -748,13 +970,22 @@ export default class Model {
   }
 
   /**
-   * Save record.
+   * Save record. When the record was retrieved from the store, only the
+   * primary key and the changed fields are sent to be updated.
    */
   async $save<T extends Model> (this: T): Promise<Item<T>> {
     const fields = this.$self().getFields()
+    const primaryKey = this.$primaryKey()
+    const changes = this.$id === null ? null : this.$getChanges()
 
     const record = Object.keys(fields).reduce((record, key) => {
-      if (fields[key] instanceof Attributes.Type) {
+      if (!(fields[key] instanceof Attributes.Type)) {
+        return record
+      }
+
+      const isPrimaryKey = Array.isArray(primaryKey) ? primaryKey.indexOf(key) !== -1 : key === primaryKey
+
+      if (changes === null || isPrimaryKey || key in changes) {
         record[key] = this[key]
       }
 
@@ -772,22 +1003,76 @@ export default class Model {
    * Delete records that matches the given condition.
    */
   async $delete (): Promise<Item<this>> {
+    return this.$dispatch('delete', this.$getIdCondition())
+  }
+
+  /**
+   * Delete all records.
+   */
+  async $deleteAll (): Promise<Collection<this>> {
+    return this.$dispatch('deleteAll')
+  }
+
+  /**
+   * Delete the record from the store, even when the model soft deletes
+   * records.
+   */
+  async $forceDelete (): Promise<Item<this>> {
+    return this.$dispatch('forceDelete', this.$getIdCondition())
+  }
+
+  /**
+   * Restore the soft deleted record.
+   */
+  async $restore (): Promise<Item<this>> {
+    return this.$dispatch('restore', this.$getIdCondition())
+  }
+
+  /**
+   * Check if the record is soft deleted.
+   */
+  $isTrashed (): boolean {
+    return this.$self().isTrashed(this)
+  }
+
+  /**
+   * Get the condition to find the record by, which is either the primary
+   * key value or, for the composite primary key, a predicate.
+   */
+  $getIdCondition (): string | number | Predicate<this> {
     const primaryKey = this.$primaryKey()
 
     if (!Array.isArray(primaryKey)) {
-      return this.$dispatch('delete', this[primaryKey])
+      return this[primaryKey]
     }
 
-    return this.$dispatch('delete', (model: this): boolean => {
+    return (model: this): boolean => {
       return primaryKey.every(id => model[id] === this[id])
-    })
+    }
   }
 
   /**
-   * Delete all records.
+   * Get the manager to attach, detach, create or associate the related
+   * records of the given relationship.
    */
-  async $deleteAll (): Promise<Collection<this>> {
-    return this.$dispatch('deleteAll')
+  $relation (name: string): RelationManager {
+    return new RelationManager(this, name)
+  }
+
+  /**
+   * Load the given relationships onto the model. It returns a copy of the
+   * model with the relationships loaded, leaving the model untouched.
+   */
+  $load (relations: string | string[], constraint: Constraint | null = null): this {
+    return Loader.load(this.$self().query(), [this], relations, constraint)[0] as this
+  }
+
+  /**
+   * Load the given relationships onto the model unless they're already
+   * loaded. It returns a copy of the model.
+   */
+  $loadMissing (relations: string | string[]): this {
+    return Loader.loadMissing(this.$self().query(), [this], relations)[0] as this
   }
 
   /**
@@ -799,6 +1084,8 @@ export default class Model {
     const data = record || {}
     const fields = this.$fields()
 
+    ComputedProperties.define(this.$self())
+
     Object.keys(fields).forEach((key) => {
       const field = fields[key]
       const value = data[key]
@@ -809,13 +1096,68 @@ export default class Model {
     if (data.$id !== undefined) {
       this.$id = this.$self().isCompositeKeyValid(this) ? JSON.parse(data.$id) : data.$id
     }
+
+    ChangeTracker.sync(this, record)
+    ComputedProperties.flush(this)
+  }
+
+  /**
+   * Get the original value of the given field, or all original values when
+   * the field is omitted, as they were when the model was last filled.
+   */
+  $getOriginal (field?: string): any {
+    const original = ChangeTracker.getOriginal(this)
+
+    return field === undefined ? original : original[field]
+  }
+
+  /**
+   * Get the fields that were changed since the model was last filled, along
+   * with their current values.
+   */
+  $getChanges (): Record {
+    return ChangeTracker.getChanges(this)
+  }
+
+  /**
+   * Check if the given field, or any field when the field is omitted, was
+   * changed since the model was last filled.
+   */
+  $isDirty (field?: string): boolean {
+    return ChangeTracker.isDirty(this, field)
+  }
+
+  /**
+   * Restore the values of the fields to the ones when the model was last
+   * filled.
+   */
+  $reset (): void {
+    ChangeTracker.reset(this)
+  }
+
+  /**
+   * Validate the model against the rules of its fields. It resolves to the
+   * error messages keyed by the fields, which is empty when the model is
+   * valid.
+   */
+  async $validate (): Promise<ValidationErrors> {
+    return Validation.validate(this)
+  }
+
+  /**
+   * Validate the model synchronously. It throws when any of the rules is
+   * async.
+   */
+  $validateSync (): ValidationErrors {
+    return Validation.validateSync(this)
   }
 
   /**
-   * Serialize field values into json.
+   * Serialize field values into json. The computed properties are included
+   * when requested by the `computed` option.
    */
-  $toJson (): Record {
-    return Serializer.serialize(this)
+  $toJson (options: SerializeOptions = {}): Record {
+    return Serializer.serialize(this, options)
   }
 
   /**
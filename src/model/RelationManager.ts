@@ -0,0 +1,268 @@
+import Record from '../data/Record'
+import Item from '../data/Item'
+import Collection from '../data/Collection'
+import Collections from '../data/Collections'
+import * as Attributes from '../attributes'
+import RelationChanges from './contracts/RelationChanges'
+import Model from './Model'
+
+export type PivotRelation = Attributes.BelongsToMany | Attributes.MorphToMany | Attributes.MorphedByMany
+
+export type RelatedKey = string | number | Model
+
+export default class RelationManager {
+  /**
+   * The model instance the relationship belongs to.
+   */
+  model: Model
+
+  /**
+   * The name of the relationship.
+   */
+  name: string
+
+  /**
+   * The relationship attribute.
+   */
+  relation: Attributes.Relation
+
+  /**
+   * Create a new relation manager instance.
+   */
+  constructor (model: Model, name: string) {
+    const relation = model.$fields()[name]
+
+    if (!(relation instanceof Attributes.Relation)) {
+      throw new Error(`The \`${name}\` field of \`${model.$self().entity}\` is not a relationship.`)
+    }
+
+    this.model = model
+    this.name = name
+    this.relation = relation
+  }
+
+  /**
+   * Attach the related records with the given keys by creating the pivot
+   * records, optionally with additional pivot data. The pivot records that
+   * already exist get updated with the data instead.
+   */
+  async attach (keys: RelatedKey | RelatedKey[], data: Record = {}): Promise<Collection> {
+    const relation = this.getPivotRelation('attach')
+    const parentId = this.model[relation.parentKey]
+    const pivots = this.getPivots(relation)
+
+    const records = this.normalizeKeys(relation, keys).map((id) => {
+      return { ...this.getPivotKey(relation, pivots[String(id)]), ...data, ...relation.createPivot(parentId, id) }
+    })
+
+    if (records.length === 0) {
+      return []
+    }
+
+    const result = await relation.pivot.insertOrUpdate({ data: records })
+
+    return result[relation.pivot.entity] || []
+  }
+
+  /**
+   * Detach the related records with the given keys by deleting the pivot
+   * records, or all of the related records when the keys are omitted.
+   */
+  async detach (keys?: RelatedKey | RelatedKey[]): Promise<Collection> {
+    const relation = this.getPivotRelation('detach')
+    const dependents = relation.getDependents([this.model])
+    const relatedPivotKey = relation.getRelatedPivotKey()
+    const ids = keys === undefined ? null : new Set(this.normalizeKeys(relation, keys).map(id => String(id)))
+
+    return relation.pivot.delete((pivot: Model) => {
+      return dependents.condition(pivot) && (ids === null || ids.has(String(pivot[relatedPivotKey])))
+    })
+  }
+
+  /**
+   * Make the related records to be exactly the ones with the given keys,
+   * attaching the missing ones and detaching the others. The pivot data
+   * may be given for each key by passing an object keyed by the keys.
+   */
+  async sync (keys: RelatedKey[] | { [key: string]: Record }): Promise<RelationChanges> {
+    const relation = this.getPivotRelation('sync')
+    const entries = this.normalizeEntries(relation, keys)
+    const pivots = this.getPivots(relation)
+    const current = Object.keys(pivots)
+
+    const changes: RelationChanges = { attached: [], detached: [], updated: [] }
+
+    const desired = new Set(entries.map(([id]) => String(id)))
+
+    changes.detached = current.filter(id => !desired.has(id)).map(id => pivots[id][relation.getRelatedPivotKey()])
+
+    changes.detached.length > 0 && await this.detach(changes.detached)
+
+    for (let i = 0; i < entries.length; i++) {
+      const [id, data] = entries[i]
+      const exists = current.indexOf(String(id)) !== -1
+
+      if (exists && Object.keys(data).length === 0) {
+        continue
+      }
+
+      await this.attach(id, data)
+
+      exists ? changes.updated.push(id) : changes.attached.push(id)
+    }
+
+    return changes
+  }
+
+  /**
+   * Detach the related records with the given keys that are attached, and
+   * attach the ones that are not.
+   */
+  async toggle (keys: RelatedKey | RelatedKey[], data: Record = {}): Promise<RelationChanges> {
+    const relation = this.getPivotRelation('toggle')
+    const pivots = this.getPivots(relation)
+    const ids = this.normalizeKeys(relation, keys)
+
+    const changes: RelationChanges = {
+      attached: ids.filter(id => !(String(id) in pivots)),
+      detached: ids.filter(id => String(id) in pivots),
+      updated: []
+    }
+
+    changes.detached.length > 0 && await this.detach(changes.detached)
+    changes.attached.length > 0 && await this.attach(changes.attached, data)
+
+    return changes
+  }
+
+  /**
+   * Create the related records with the foreign keys referring to the
+   * model.
+   */
+  async create (records: Record | Record[]): Promise<Collections> {
+    const relation = this.relation
+
+    if (!(relation instanceof Attributes.HasOne || relation instanceof Attributes.HasMany || relation instanceof Attributes.MorphOne || relation instanceof Attributes.MorphMany)) {
+      throw this.unsupported('create')
+    }
+
+    const keys = relation.getForeignKeyValues(this.model)
+
+    const data = Array.isArray(records) ? records.map(record => ({ ...record, ...keys })) : { ...records, ...keys }
+
+    return relation.related.insert({ data })
+  }
+
+  /**
+   * Associate the model with the given related model by setting the
+   * foreign keys of the model.
+   */
+  async associate (related: Model): Promise<Item> {
+    return this.updateAssociation('associate', related)
+  }
+
+  /**
+   * Dissociate the model from the related model by setting the foreign
+   * keys of the model to `null`.
+   */
+  async dissociate (): Promise<Item> {
+    return this.updateAssociation('dissociate', null)
+  }
+
+  /**
+   * Update the foreign keys of the model referring to the given related
+   * model.
+   */
+  private async updateAssociation (method: string, related: Model | null): Promise<Item> {
+    const relation = this.relation
+
+    if (!(relation instanceof Attributes.BelongsTo || relation instanceof Attributes.MorphTo)) {
+      throw this.unsupported(method)
+    }
+
+    const data = relation.getAssociateValues(related)
+
+    const result = await this.model.$dispatch('update', { where: this.model.$getIdCondition(), data })
+
+    return Array.isArray(result) ? result[0] || null : result
+  }
+
+  /**
+   * Get the relationship as a pivot-based relationship.
+   */
+  private getPivotRelation (method: string): PivotRelation {
+    const relation = this.relation
+
+    if (!(relation instanceof Attributes.BelongsToMany || relation instanceof Attributes.MorphToMany || relation instanceof Attributes.MorphedByMany)) {
+      throw this.unsupported(method)
+    }
+
+    return relation
+  }
+
+  /**
+   * Get the pivot records of the model keyed by the related keys.
+   */
+  private getPivots (relation: PivotRelation): { [id: string]: Model } {
+    const dependents = relation.getDependents([this.model])
+    const relatedPivotKey = relation.getRelatedPivotKey()
+
+    return relation.pivot.query().withTrashed().withoutGlobalScopes().where(dependents.condition).get().reduce<{ [id: string]: Model }>((pivots, pivot) => {
+      pivots[String(pivot[relatedPivotKey])] = pivot
+
+      return pivots
+    }, {})
+  }
+
+  /**
+   * Get the primary key values of the given pivot record, so that the
+   * existing pivot record gets updated rather than duplicated.
+   */
+  private getPivotKey (relation: PivotRelation, pivot: Model | undefined): Record {
+    if (pivot === undefined) {
+      return {}
+    }
+
+    const primaryKey = relation.pivot.primaryKey
+
+    return (Array.isArray(primaryKey) ? primaryKey : [primaryKey]).reduce<Record>((record, key) => {
+      record[key] = pivot[key]
+
+      return record
+    }, {})
+  }
+
+  /**
+   * Convert the given keys or models to the list of the related keys.
+   */
+  private normalizeKeys (relation: PivotRelation, keys: RelatedKey | RelatedKey[]): (string | number)[] {
+    return (Array.isArray(keys) ? keys : [keys]).map((key) => {
+      return key instanceof Model ? key[relation.relatedKey] : key
+    })
+  }
+
+  /**
+   * Convert the given keys, or the pivot data keyed by the keys, to the
+   * list of the pairs of the related key and the pivot data.
+   */
+  private normalizeEntries (relation: PivotRelation, keys: RelatedKey[] | { [key: string]: Record }): [string | number, Record][] {
+    if (Array.isArray(keys)) {
+      return this.normalizeKeys(relation, keys).map<[string | number, Record]>(id => [id, {}])
+    }
+
+    // The keys of the object are always strings, so we'll look up the
+    // related records to get the keys in their original type.
+    return Object.keys(keys).map<[string | number, Record]>((id) => {
+      const related = relation.related.query().where((record: Model) => String(record[relation.relatedKey]) === id).first()
+
+      return [related ? related[relation.relatedKey] : id, keys[id]]
+    })
+  }
+
+  /**
+   * Create the error for the method not supported by the relationship.
+   */
+  private unsupported (method: string): Error {
+    return new Error(`The \`${method}\` method can't be used with the \`${this.name}\` relationship of \`${this.model.$self().entity}\`.`)
+  }
+}
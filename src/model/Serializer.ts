@@ -1,32 +1,49 @@
 import Record from '../data/Record'
+import SerializeOptions from './contracts/SerializeOptions'
+import ComputedProperties from './ComputedProperties'
 import Model from './Model'
 
 export default class Serializer {
   /**
-   * Serialize given model fields value to json.
+   * Serialize given model fields value to json. Fields absent from the model,
+   * such as the ones not selected by `only`, are skipped.
    */
-  static serialize (model: Model): Record {
+  static serialize (model: Model, options: SerializeOptions = {}): Record {
     const fields = model.$fields()
 
-    return Object.keys(fields).reduce<Record>((record, key) => {
+    const record = Object.keys(fields).reduce<Record>((record, key) => {
+      if (!(key in model)) {
+        return record
+      }
+
       const value = model[key]
 
-      record[key] = this.serializeValue(value)
+      record[key] = this.serializeValue(value, options)
 
       return record
     }, {})
+
+    this.getComputedNames(model, options).forEach((name) => {
+      record[name] = this.serializeValue(model[name], options)
+    })
+
+    return record
   }
 
   /**
    * Serialize given value.
    */
-  static serializeValue (value: any): any {
+  static serializeValue (value: any, options: SerializeOptions = {}): any {
     if (value instanceof Model) {
-      return this.serializeItem(value)
+      return this.serializeItem(value, options)
     }
 
     if (Array.isArray(value)) {
-      return this.serializeCollection(value)
+      return this.serializeCollection(value, options)
+    }
+
+    if (value instanceof Date) {
+      return value.toISOString()
     }
 
     return value
@@ -35,20 +52,39 @@ export default class Serializer {
   /**
    * Serialize an item into json.
    */
-  static serializeItem (item: Model): Record {
-    return item.$toJson()
+  static serializeItem (item: Model, options: SerializeOptions = {}): Record {
+    return item.$toJson(options)
   }
 
   /**
    * Serialize a collection into json.
    */
-  static serializeCollection (collection: (Model | any)[]): Record[] {
+  static serializeCollection (collection: (Model | any)[], options: SerializeOptions = {}): Record[] {
     return collection.map((item) => {
       if (item instanceof Model) {
-        return item.$toJson()
+        return item.$toJson(options)
+      }
+
+      if (item instanceof Date) {
+        return item.toISOString()
       }
 
       return item
     })
   }
+
+  /**
+   * Get the names of the computed properties of the given model to be
+   * serialized. The names not defined by the model are ignored, so the
+   * same names may be passed down to the related models.
+   */
+  private static getComputedNames (model: Model, options: SerializeOptions): string[] {
+    if (!options.computed) {
+      return []
+    }
+
+    const names = Object.keys(ComputedProperties.getComputed(model.$self()))
+
+    return options.computed === true ? names : names.filter(name => (options.computed as string[]).indexOf(name) !== -1)
+  }
 }
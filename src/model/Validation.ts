@@ -0,0 +1,81 @@
+import * as Attributes from '../attributes'
+import Rule from '../attributes/contracts/Rule'
+import { ValidatorResult } from '../attributes/contracts/Validator'
+import ValidationErrors from './contracts/ValidationErrors'
+import Model from './Model'
+
+export default class Validation {
+  /**
+   * Validate the given model against the rules of its fields, including the
+   * async rules.
+   */
+  static async validate (model: Model): Promise<ValidationErrors> {
+    const results = this.run(model, result => Promise.resolve(result))
+
+    const resolved = await Promise.all(results.map(({ result }) => result))
+
+    return results.reduce<ValidationErrors>((errors, { key, rule }, index) => {
+      this.addError(errors, key, rule, resolved[index])
+
+      return errors
+    }, {})
+  }
+
+  /**
+   * Validate the given model against the rules of its fields synchronously.
+   * It throws when any of the rules is async.
+   */
+  static validateSync (model: Model): ValidationErrors {
+    const results = this.run(model, (result, key) => {
+      if (result instanceof Promise) {
+        throw new Error(`The rule of the \`${key}\` field of \`${model.$self().entity}\` is async. Use \`$validate\` to validate the model instead.`)
+      }
+
+      return result
+    })
+
+    return results.reduce<ValidationErrors>((errors, { key, rule, result }) => {
+      this.addError(errors, key, rule, result)
+
+      return errors
+    }, {})
+  }
+
+  /**
+   * Run the rules of the fields of the given model, passing each result
+   * through the given resolver.
+   */
+  private static run<R> (model: Model, resolve: (result: ValidatorResult | Promise<ValidatorResult>, key: string) => R): { key: string, rule: Rule, result: R }[] {
+    const fields = model.$fields()
+
+    return Object.keys(fields).reduce<{ key: string, rule: Rule, result: R }[]>((results, key) => {
+      const field = fields[key]
+
+      if (!(field instanceof Attributes.Type)) {
+        return results
+      }
+
+      field.rules.forEach((rule) => {
+        results.push({ key, rule, result: resolve(rule.validator(model[key], model), key) })
+      })
+
+      return results
+    }, [])
+  }
+
+  /**
+   * Add the error message of the rule to the errors when the result of the
+   * rule is a failure.
+   */
+  private static addError (errors: ValidationErrors, key: string, rule: Rule, result: ValidatorResult): void {
+    if (result === true) {
+      return
+    }
+
+    const message = typeof result === 'string' ? result : (typeof rule.message === 'string' ? rule.message : rule.message(key))
+
+    const messages = errors[key] || (errors[key] = [])
+
+    messages.push(message)
+  }
+}
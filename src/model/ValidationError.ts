@@ -0,0 +1,26 @@
+import ValidationErrors from './contracts/ValidationErrors'
+
+export interface EntityValidationErrors {
+  [entity: string]: { [id: string]: ValidationErrors }
+}
+
+export default class ValidationError extends Error {
+  /**
+   * The errors of the invalid records keyed by the entity and the id.
+   */
+  errors: EntityValidationErrors
+
+  /**
+   * Create a new validation error instance.
+   */
+  constructor (errors: EntityValidationErrors) {
+    super('The given data was invalid.')
+
+    // The prototype has to be restored since extending the built-in `Error`
+    // breaks the prototype chain when compiled down to ES5.
+    Object.setPrototypeOf(this, ValidationError.prototype)
+
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
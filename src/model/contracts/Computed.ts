@@ -0,0 +1,12 @@
+export type ComputedGetter = (model: any) => any
+
+export interface ComputedOptions {
+  get: ComputedGetter
+  cache?: boolean
+}
+
+export interface Computed {
+  [name: string]: ComputedGetter | ComputedOptions
+}
+
+export default Computed
@@ -0,0 +1,7 @@
+export interface RelationChanges {
+  attached: (string | number)[]
+  detached: (string | number)[]
+  updated: (string | number)[]
+}
+
+export default RelationChanges
@@ -0,0 +1,5 @@
+export interface SerializeOptions {
+  computed?: boolean | string[]
+}
+
+export default SerializeOptions
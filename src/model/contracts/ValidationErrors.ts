@@ -0,0 +1,5 @@
+export interface ValidationErrors {
+  [field: string]: string[]
+}
+
+export default ValidationErrors
@@ -103,7 +103,30 @@ const Actions: ActionsContract = {
   },
 
   delete: destroy,
-  deleteAll
+  deleteAll,
+
+  /**
+   * Delete records from the store, even when the model soft deletes
+   * records.
+   */
+  forceDelete (context: ActionContext, payload: Payloads.DeleteById | Payloads.DeleteByCondition): Promise<Item | Collection> {
+    const state = context.state
+    const entity = state.$name
+    const where = payload
+
+    return context.dispatch(`${state.$connection}/forceDelete`, { entity, where }, { root: true })
+  },
+
+  /**
+   * Restore soft deleted records.
+   */
+  restore (context: ActionContext, payload: Payloads.DeleteById | Payloads.DeleteByCondition): Promise<Item | Collection> {
+    const state = context.state
+    const entity = state.$name
+    const where = payload
+
+    return context.dispatch(`${state.$connection}/restore`, { entity, where }, { root: true })
+  }
 }
 
 export default Actions
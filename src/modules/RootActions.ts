@@ -6,6 +6,32 @@ import ActionsContract from './contracts/RootActions'
 import ActionContext from './contracts/RootActionContext'
 import * as Payloads from './payloads/RootActions'
 import Result from './contracts/Result'
+import Transaction from '../database/Transaction'
+import RootMutations from './RootMutations'
+
+/**
+ * Commit the mutation. While a transaction is in progress on the state of
+ * the store the action was dispatched to, the mutation is applied to the
+ * state of the transaction instead, so that all changes get committed at
+ * once when the transaction ends.
+ *
+ * The mutations don't throw, since an error thrown inside the commit would
+ * leave Vuex believing it's still committing. Instead, the error is set to
+ * the result of the payload and thrown here once the commit has returned.
+ */
+function commit (context: ActionContext, name: string, payload?: any): void {
+  const transaction = Transaction.find(context.state)
+
+  if (transaction === null) {
+    context.commit(name, payload)
+  } else {
+    (RootMutations[name] as Function)(transaction.state, payload)
+  }
+
+  if (payload && payload.result && payload.result.error) {
+    throw payload.result.error
+  }
+}
 
 /**
  * Delete records from the store. The actual name for this action is `delete`,
@@ -17,7 +43,7 @@ async function destroy (context: ActionContext, payload: Payloads.DeleteByCondit
 async function destroy (context: ActionContext, payload: any): Promise<any> {
   const result: Result = { data: {} }
 
-  context.commit('delete', { ...payload, result })
+  commit(context, 'delete', { ...payload, result })
 
   return result.data
 }
@@ -26,13 +52,15 @@ async function destroy (context: ActionContext, payload: any): Promise<any> {
  * Delete all data from the store.
  */
 async function deleteAll (context: ActionContext, payload?: Payloads.DeleteAll): Promise<void> {
+  const result: Result = { data: {} }
+
   if (payload && payload.entity) {
-    context.commit('deleteAll', { entity: payload.entity })
+    commit(context, 'deleteAll', { entity: payload.entity, result })
 
     return
   }
 
-  context.commit('deleteAll')
+  commit(context, 'deleteAll', { result })
 }
 
 const RootActions: ActionsContract = {
@@ -42,7 +70,7 @@ const RootActions: ActionsContract = {
   new (context: ActionContext, payload: Payloads.New): Promise<Model> {
     const result: Result = { data: {} }
 
-    context.commit('new', { ...payload, result })
+    commit(context, 'new', { ...payload, result })
 
     return result.data
   },
@@ -55,7 +83,7 @@ const RootActions: ActionsContract = {
   async create (context: ActionContext, payload: Payloads.Create): Promise<Collections> {
     const result: Result = { data: {} }
 
-    context.commit('create', { ...payload, result })
+    commit(context, 'create', { ...payload, result })
 
     return result.data
   },
@@ -68,7 +96,7 @@ const RootActions: ActionsContract = {
   async insert (context: ActionContext, payload: Payloads.Insert): Promise<Collections> {
     const result: Result = { data: {} }
 
-    context.commit('insert', { ...payload, result })
+    commit(context, 'insert', { ...payload, result })
 
     return result.data
   },
@@ -79,7 +107,7 @@ const RootActions: ActionsContract = {
   async update (context: ActionContext, payload: Payloads.Update): Promise<Item | Collection | Collections> {
     const result: Result = { data: {} }
 
-    context.commit('update', { ...payload, result })
+    commit(context, 'update', { ...payload, result })
 
     return result.data
   },
@@ -92,13 +120,36 @@ const RootActions: ActionsContract = {
   async insertOrUpdate (context: ActionContext, payload: Payloads.InsertOrUpdate): Promise<Collections> {
     const result: Result = { data: {} }
 
-    context.commit('insertOrUpdate', { ...payload, result })
+    commit(context, 'insertOrUpdate', { ...payload, result })
 
     return result.data
   },
 
   delete: destroy,
-  deleteAll
+  deleteAll,
+
+  /**
+   * Delete records from the store, even when the model soft deletes
+   * records.
+   */
+  async forceDelete (context: ActionContext, payload: Payloads.DeleteById | Payloads.DeleteByCondition): Promise<Item | Collection> {
+    const result: Result = { data: {} }
+
+    commit(context, 'forceDelete', { ...payload, result })
+
+    return result.data
+  },
+
+  /**
+   * Restore soft deleted records.
+   */
+  async restore (context: ActionContext, payload: Payloads.DeleteById | Payloads.DeleteByCondition): Promise<Item | Collection> {
+    const result: Result = { data: {} }
+
+    commit(context, 'restore', { ...payload, result })
+
+    return result.data
+  }
 }
 
 export default RootActions
@@ -1,9 +1,32 @@
 import Query from '../query/Query'
+import Indexer from '../query/indexes/Indexer'
+import History from '../database/History'
 import OptionsBuilder from './support/OptionsBuilder'
 import RootState from './contracts/RootState'
+import Result from './contracts/Result'
 import MutationsContract from './contracts/RootMutations'
 import * as Payloads from './payloads/RootMutations'
 
+/**
+ * Record the changes made by the callback to the history as a single entry.
+ */
+function record<R> (callback: () => R): R {
+  return Query.database().history.record(callback)
+}
+
+/**
+ * Set the return value of the callback to the result. An error thrown by
+ * the callback is set to the result as well, so that the action can throw
+ * it after the commit ends.
+ */
+function resolve (result: Result, callback: () => any): void {
+  try {
+    result.data = callback()
+  } catch (e) {
+    result.error = e
+  }
+}
+
 /**
  * Delete records from the store. The actual name for this mutation is
  * `delete`, but named `destroy` here because `delete` can't be declared at
@@ -15,20 +38,28 @@ function destroy (state: RootState, payload: Payloads.Delete): void {
 
   const result = payload.result
 
-  result.data = (new Query(state, entity)).delete(where as any)
+  resolve(result, () => record(() => (new Query(state, entity)).delete(where as any)))
 }
 
 /**
  * Delete all data from the store.
  */
 function deleteAll (state: RootState, payload?: Payloads.DeleteAll): void {
-  if (payload && payload.entity) {
-    (new Query(state, payload.entity)).deleteAll()
+  const entity = payload && payload.entity
+  const result = payload && payload.result
+
+  const callback = () => entity
+    ? record(() => (new Query(state, entity)).deleteAll())
+    : record(() => Query.deleteAll(state))
+
+  // The result is given only when committed by the action.
+  if (!result) {
+    callback()
 
     return
   }
 
-  Query.deleteAll(state)
+  resolve(result, callback)
 }
 
 const RootMutations: MutationsContract = {
@@ -38,6 +69,29 @@ const RootMutations: MutationsContract = {
    */
   $mutate (state: RootState, payload: Payloads.$Mutate): void {
     payload.callback(state[payload.entity])
+
+    // The callback may change the records in place, which the indexes and
+    // the query cache can't keep track of, so let them know.
+    Indexer.flush(state[payload.entity])
+    Query.database().cache.invalidate(state[payload.entity])
+  },
+
+  /**
+   * Apply the entry of the history to undo or redo its changes.
+   */
+  $history (state: RootState, payload: Payloads.$History): void {
+    History.apply(state, payload.entry, payload.undo)
+  },
+
+  /**
+   * Commit the changes made to the entities during the transaction.
+   */
+  $transaction (state: RootState, payload: Payloads.$Transaction): void {
+    const transaction = payload.transaction
+
+    transaction.getChangedEntities().forEach((entity) => {
+      state[entity].data = transaction.state[entity].data
+    })
   },
 
   /**
@@ -48,7 +102,7 @@ const RootMutations: MutationsContract = {
 
     const result = payload.result
 
-    result.data = (new Query(state, entity)).new()
+    resolve(result, () => (new Query(state, entity)).new())
   },
 
   /**
@@ -63,7 +117,7 @@ const RootMutations: MutationsContract = {
 
     const result = payload.result
 
-    result.data = (new Query(state, entity)).create(data, options)
+    resolve(result, () => record(() => (new Query(state, entity)).create(data, options)))
   },
 
   /**
@@ -78,7 +132,7 @@ const RootMutations: MutationsContract = {
 
     const result = payload.result
 
-    result.data = (new Query(state, entity)).insert(data, options)
+    resolve(result, () => record(() => (new Query(state, entity)).insert(data, options)))
   },
 
   /**
@@ -92,7 +146,7 @@ const RootMutations: MutationsContract = {
 
     const result = payload.result
 
-    result.data = (new Query(state, entity)).update(data, where, options)
+    resolve(result, () => record(() => (new Query(state, entity)).update(data, where, options)))
   },
 
   /**
@@ -107,11 +161,36 @@ const RootMutations: MutationsContract = {
 
     const result = payload.result
 
-    result.data = (new Query(state, entity)).insertOrUpdate(data, options)
+    resolve(result, () => record(() => (new Query(state, entity)).insertOrUpdate(data, options)))
   },
 
   delete: destroy,
-  deleteAll
+  deleteAll,
+
+  /**
+   * Delete records from the store, even when the model soft deletes
+   * records.
+   */
+  forceDelete (state: RootState, payload: Payloads.Delete): void {
+    const entity = payload.entity
+    const where = payload.where
+
+    const result = payload.result
+
+    resolve(result, () => record(() => (new Query(state, entity)).forceDelete(where as any)))
+  },
+
+  /**
+   * Restore soft deleted records.
+   */
+  restore (state: RootState, payload: Payloads.Delete): void {
+    const entity = payload.entity
+    const where = payload.where
+
+    const result = payload.result
+
+    resolve(result, () => record(() => (new Query(state, entity)).restore(where as any)))
+  }
 }
 
 export default RootMutations
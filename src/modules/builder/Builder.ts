@@ -1,4 +1,5 @@
 import * as Vuex from 'vuex'
+import Container from '../../container/Container'
 import Model from '../../model/Model'
 import Models from '../../database/Models'
 import Modules from '../../database/Modules'
@@ -20,7 +21,7 @@ export default class Builder {
       namespaced: true,
       state: { $name: namespace },
       getters: RootGetters,
-      actions: RootActions,
+      actions: this.createActions(RootActions),
       mutations: RootMutations,
       modules: {}
     }
@@ -47,7 +48,7 @@ export default class Builder {
 
       tree.modules[name].getters = { ...Getters, ...module.getters }
 
-      tree.modules[name].actions = { ...Actions, ...module.actions }
+      tree.modules[name].actions = this.createActions({ ...Actions, ...module.actions })
 
       tree.modules[name].mutations = module.mutations || {}
     })
@@ -55,6 +56,37 @@ export default class Builder {
     return tree
   }
 
+  /**
+   * Wrap the given actions so that the changes made by an action, including
+   * the ones made by the actions it dispatches, are recorded to the history
+   * as a single entry. Only the changes made before the action awaits
+   * anything are grouped, since the rest are made after it returns.
+   */
+  static createActions (actions: Vuex.ActionTree<any, any>): Vuex.ActionTree<any, any> {
+    return Object.keys(actions).reduce<Vuex.ActionTree<any, any>>((tree, name) => {
+      const action = actions[name]
+
+      if (typeof action === 'function') {
+        tree[name] = this.createAction(action)
+
+        return tree
+      }
+
+      tree[name] = { ...action, handler: this.createAction(action.handler) }
+
+      return tree
+    }, {})
+  }
+
+  /**
+   * Wrap the given action handler to record its changes as a single entry.
+   */
+  static createAction (handler: Vuex.ActionHandler<any, any>): Vuex.ActionHandler<any, any> {
+    return function (this: Vuex.Store<any>, context: Vuex.ActionContext<any, any>, payload?: any): any {
+      return Container.database.history.record(() => handler.call(this, context, payload))
+    }
+  }
+
   /**
    * Get new state to be registered to the modules.
    */
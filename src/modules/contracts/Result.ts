@@ -1,5 +1,6 @@
 export interface Result {
   data: any
+  error?: Error
 }
 
 export default Result
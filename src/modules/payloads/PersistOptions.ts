@@ -3,6 +3,7 @@ export interface PersistOptions {
   insert?: string[]
   update?: string[]
   insertOrUpdate?: string[]
+  validate?: boolean
 }
 
 export default PersistOptions
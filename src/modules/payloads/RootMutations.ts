@@ -3,6 +3,8 @@ import Predicate from '../../query/contracts/Predicate'
 import State from '../contracts/State'
 import Result from '../contracts/Result'
 import PersistOptions from './PersistOptions'
+import Transaction from '../../database/Transaction'
+import { HistoryEntry } from '../../database/History'
 
 export type Condition = (record: Record) => boolean
 
@@ -11,6 +13,15 @@ export interface $Mutate {
   callback: (state: State) => void
 }
 
+export interface $History {
+  entry: HistoryEntry
+  undo: boolean
+}
+
+export interface $Transaction {
+  transaction: Transaction
+}
+
 export interface New extends PersistOptions {
   entity: string
   result: Result
@@ -48,5 +59,6 @@ export interface Delete {
 }
 
 export interface DeleteAll {
-  entity: string
+  entity?: string
+  result?: Result
 }
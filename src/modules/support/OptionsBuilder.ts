@@ -9,7 +9,8 @@ export default class OptionsBuilder {
       create: payload.create,
       insert: payload.insert,
       update: payload.update,
-      insertOrUpdate: payload.insertOrUpdate
+      insertOrUpdate: payload.insertOrUpdate,
+      validate: payload.validate
     }
   }
 }
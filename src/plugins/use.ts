@@ -5,7 +5,13 @@ import Attr from '../attributes/types/Attr'
 import String from '../attributes/types/String'
 import Number from '../attributes/types/Number'
 import Boolean from '../attributes/types/Boolean'
+import DateType from '../attributes/types/DateType'
+import ArrayType from '../attributes/types/ArrayType'
+import ObjectType from '../attributes/types/ObjectType'
+import Enum from '../attributes/types/Enum'
+import Embedded from '../attributes/types/Embedded'
 import Increment from '../attributes/types/Increment'
+import Uid from '../attributes/types/Uid'
 import Relation from '../attributes/relations/Relation'
 import HasOne from '../attributes/relations/HasOne'
 import BelongsTo from '../attributes/relations/BelongsTo'
@@ -38,7 +44,13 @@ export interface PluginComponents {
   String: typeof String
   Number: typeof Number
   Boolean: typeof Boolean
+  DateType: typeof DateType
+  ArrayType: typeof ArrayType
+  ObjectType: typeof ObjectType
+  Enum: typeof Enum
+  Embedded: typeof Embedded
   Increment: typeof Increment
+  Uid: typeof Uid
   Relation: typeof Relation
   HasOne: typeof HasOne
   BelongsTo: typeof BelongsTo
@@ -78,7 +90,13 @@ export default function (plugin: Plugin, options: Options = {}): void {
     String,
     Number,
     Boolean,
+    DateType,
+    ArrayType,
+    ObjectType,
+    Enum,
+    Embedded,
     Increment,
+    Uid,
     Relation,
     HasOne,
     BelongsTo,
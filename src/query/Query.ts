@@ -4,6 +4,9 @@ import Database from '../database/Database'
 import Models from '../database/Models'
 import * as Data from '../data'
 import Model from '../model/Model'
+import ChangeTracker from '../model/ChangeTracker'
+import Validation from '../model/Validation'
+import ValidationError, { EntityValidationErrors } from '../model/ValidationError'
 import State from '../modules/contracts/State'
 import RootState from '../modules/contracts/RootState'
 import PersistOptions from '../modules/payloads/PersistOptions'
@@ -11,8 +14,16 @@ import * as Contracts from './contracts'
 import * as Options from './options'
 import Processor from './processors/Processor'
 import Filter from './filters/Filter'
+import WhereFilter from './filters/WhereFilter'
 import Loader from './loaders/Loader'
+import Indexer from './indexes/Indexer'
 import Rollcaller from './rollcallers/Rollcaller'
+import Paginator from './paginators/Paginator'
+import Aggregates from './aggregates/Aggregates'
+import Grouper from './aggregates/Grouper'
+import Projector from './projectors/Projector'
+import Cascader from './cascades/Cascader'
+import LiveQuery from './live/LiveQuery'
 
 export type UpdateClosure = (record: Data.Record) => void
 
@@ -78,9 +89,11 @@ export default class Query<T extends Model = Model> {
   joinedIdFilter: Set<number | string> | null = null
 
   /**
-   * The where constraints for the query.
+   * The where constraints for the query. Each clause is either a single where
+   * condition or a nested group of clauses, forming a boolean expression
+   * where "and" takes precedence over "or".
    */
-  wheres: Options.Where[] = []
+  wheres: Options.WhereClause[] = []
 
   /**
    * The has constraints for the query.
@@ -92,6 +105,11 @@ export default class Query<T extends Model = Model> {
    */
   orders: Options.Orders[] = []
 
+  /**
+   * The fields to group the query result by.
+   */
+  groups: string[] = []
+
   /**
    * Number of results to skip.
    */
@@ -109,6 +127,43 @@ export default class Query<T extends Model = Model> {
    */
   load: Options.Load = {}
 
+  /**
+   * The relationship aggregates that should be eager loaded with the result.
+   */
+  relationAggregates: Options.RelationAggregate[] = []
+
+  /**
+   * The fields the result should only contain. When it's `null`, the result
+   * contains all fields.
+   */
+  projection: string[] | null = null
+
+  /**
+   * The where constraints for the pivot records. They're only used when the
+   * query is the constraint of a many to many relationship.
+   */
+  pivotWheres: Options.Where[] = []
+
+  /**
+   * The orders of the pivot records. The related records are ordered by
+   * their pivot records when the query is the constraint of a many to many
+   * relationship.
+   */
+  pivotOrders: Options.Orders[] = []
+
+  /**
+   * Whether if the soft deleted records should be included in the result,
+   * or if the result should only contain them.
+   */
+  trashed: Options.Trashed = 'without'
+
+  /**
+   * The where clauses and the orders added by each global scope of the
+   * model. The where clauses are kept apart from the ones of the query so
+   * that the "or" clauses of the query don't bypass them.
+   */
+  globalScopes: { [name: string]: Options.AppliedGlobalScope } = {}
+
   /**
    * This flag lets us know if current Query instance applies to
    * a base class or not (in order to know when to filter out some
@@ -120,6 +175,13 @@ export default class Query<T extends Model = Model> {
    * Create a new Query instance.
    */
   constructor (state: RootState, entity: string) {
+    // While a transaction is in progress, the query works on the state of
+    // the transaction.
+    const transaction = this.database().activeTransaction
+
+    if (transaction !== null && state === transaction.source) {
+      state = transaction.state
+    }
 
     // All entitites with same base class are stored in the same state
     const baseModel = this.getBase(entity)
@@ -130,6 +192,9 @@ export default class Query<T extends Model = Model> {
     this.rootState = state
     this.entity = entity
     this.model = this.getModel(entity)
+
+    this.registerScopes()
+    this.applyGlobalScopes()
   }
 
   /**
@@ -213,6 +278,51 @@ export default class Query<T extends Model = Model> {
     return this.constructor as typeof Query
   }
 
+  /**
+   * Define the local scopes of the model as the methods of the query.
+   */
+  private registerScopes (): void {
+    const scopes = this.model.scopes() as { [name: string]: Contracts.Scope }
+
+    Object.keys(scopes).forEach((name) => {
+      if (name in this) {
+        throw new Error(`The scope \`${name}\` of \`${this.entity}\` conflicts with the query method of the same name.`)
+      }
+
+      this[name] = (...args: any[]): this => {
+        scopes[name](this, ...args)
+
+        return this
+      }
+    })
+  }
+
+  /**
+   * Apply the global scopes of the model to the query. The where clauses of
+   * the scopes don't set the id filter, so that removing a scope doesn't
+   * leave its where clause on the primary key behind.
+   */
+  private applyGlobalScopes (): void {
+    const scopes = this.model.globalScopes()
+
+    Object.keys(scopes).forEach((name) => {
+      const wheres = this.wheres
+      const orders = this.orders.length
+      const idFilter = this.idFilter
+      const cancelIdFilter = this.cancelIdFilter
+
+      this.wheres = []
+
+      scopes[name](this)
+
+      this.globalScopes[name] = { wheres: this.wheres, orders: this.orders.slice(orders) }
+
+      this.wheres = wheres
+      this.idFilter = idFilter
+      this.cancelIdFilter = cancelIdFilter
+    })
+  }
+
   /**
    * Create a new query instance.
    */
@@ -222,6 +332,38 @@ export default class Query<T extends Model = Model> {
     return (new Query(this.rootState, entity))
   }
 
+  /**
+   * Create a copy of the query, so that the copy can be changed or executed
+   * without affecting the query.
+   */
+  copy (): Query {
+    const query = this.newQuery()
+
+    query.idFilter = this.idFilter && new Set(this.idFilter)
+    query.cancelIdFilter = this.cancelIdFilter
+    query.joinedIdFilter = this.joinedIdFilter && new Set(this.joinedIdFilter)
+    query.wheres = this.wheres.slice()
+    query.have = this.have.slice()
+    query.orders = this.orders.slice()
+    query.groups = this.groups.slice()
+    query.offsetNumber = this.offsetNumber
+    query.limitNumber = this.limitNumber
+    query.relationAggregates = this.relationAggregates.slice()
+    query.projection = this.projection && this.projection.slice()
+    query.pivotWheres = this.pivotWheres.slice()
+    query.pivotOrders = this.pivotOrders.slice()
+    query.trashed = this.trashed
+    query.globalScopes = { ...this.globalScopes }
+
+    query.load = Object.keys(this.load).reduce<Options.Load>((load, name) => {
+      load[name] = this.load[name].slice()
+
+      return load
+    }, {})
+
+    return query
+  }
+
   /**
    * Get the database from the container.
    */
@@ -266,7 +408,13 @@ export default class Query<T extends Model = Model> {
   find (id: number | string | (number | string)[]): Data.Item<T> {
     id = Array.isArray(id) ? JSON.stringify(id) : id
 
-    return this.item(this.state.data[id]) as Data.Item<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
+    const record = this.state.data[id]
+
+    if (record && !WhereFilter.checkScopes(this, record)) {
+      return null
+    }
+
+    return this.item(record) as Data.Item<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
   }
 
   /**
@@ -277,59 +425,132 @@ export default class Query<T extends Model = Model> {
       id = Array.isArray(id) ? JSON.stringify(id) : id
 
       return this.state.data[id]
-    }).filter(item => item) as Data.Collection<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
+    }).filter(item => item && WhereFilter.checkScopes(this, item)) as Data.Collection<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
   }
 
   /**
    * Returns all record of the query chain result.
    */
   get (): Data.Collection<T> {
-    const records = this.select()
+    return this.remember('get', () => {
+      const records = this.select()
 
-    return this.collect(records) as Data.Collection<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
+      return this.collect(records) as Data.Collection<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
+    })
   }
 
   /**
    * Returns the first record of the query chain result.
    */
   first (): Data.Item<T> {
-    const records = this.select()
+    return this.remember('first', () => {
+      const records = this.select()
 
-    return this.item(records[0]) as Data.Item<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
+      return this.item(records[0]) as Data.Item<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
+    })
   }
 
   /**
    * Returns the last single record of the query chain result.
    */
   last (): Data.Item<T> {
-    const records = this.select()
+    return this.remember('last', () => {
+      const records = this.select()
 
-    return this.item(records[records.length - 1]) as Data.Item<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
+      return this.item(records[records.length - 1]) as Data.Item<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
+    })
   }
 
   /**
-   * Add a and where clause to the query.
+   * Get the records of the given page along with the total number of the
+   * records and the number of the last page.
    */
-  where (field: any, value?: any): this {
-    if (this.isIdfilterable(field)) {
-      this.setIdFilter(value)
+  paginate (options: Options.Paginate): Contracts.Pagination<T> {
+    return Paginator.paginate(this, options) as Contracts.Pagination<T>
+  }
+
+  /**
+   * Get the records that come after the given cursor, ordered by the orders
+   * of the query followed by the primary key.
+   */
+  cursor (options: Options.Cursor): Contracts.CursorPagination<T> {
+    return Paginator.cursor(this, options) as Contracts.CursorPagination<T>
+  }
+
+  /**
+   * Create a live query that keeps the result of the query up to date as
+   * the entities it depends on change.
+   */
+  live (): LiveQuery<T> {
+    return new LiveQuery(this)
+  }
+
+  /**
+   * Get the result of the query from the query cache, or execute the
+   * callback and cache its result.
+   */
+  private remember<R> (method: string, callback: () => R): R {
+    // The state of a transaction is discarded once it ends, so the results
+    // built from it must not be cached.
+    if (this.database().activeTransaction !== null) {
+      return callback()
     }
 
-    this.wheres.push({ field, value, boolean: 'and' })
+    return this.database().cache.remember(this, method, callback)
+  }
 
-    return this
+  /**
+   * Add a and where clause to the query. When three arguments are given, the
+   * second argument is treated as the comparison operator such as `>`.
+   */
+  where (field: any, operator?: any, value?: any): this {
+    if (arguments.length < 3) {
+      return this.addWhere(field, undefined, operator, 'and')
+    }
+
+    return this.addWhere(field, operator, value, 'and')
   }
 
   /**
-   * Add a or where clause to the query.
+   * Add a or where clause to the query. When three arguments are given, the
+   * second argument is treated as the comparison operator such as `>`.
    */
-  orWhere (field: any, value?: any): this {
-    // Cacncel id filter usage, since "or" needs full scan.
-    this.cancelIdFilter = true
+  orWhere (field: any, operator?: any, value?: any): this {
+    if (arguments.length < 3) {
+      return this.addWhere(field, undefined, operator, 'or')
+    }
 
-    this.wheres.push({ field, value, boolean: 'or' })
+    return this.addWhere(field, operator, value, 'or')
+  }
 
-    return this
+  /**
+   * Add a nested group of where clauses to the query, joined by "and". The
+   * clauses registered on the query passed to the callback are evaluated
+   * together, like wrapping them in parentheses.
+   */
+  whereGroup (callback: Options.WhereGroupClosure): this {
+    return this.addWhereGroup(callback, 'and')
+  }
+
+  /**
+   * Add a nested group of where clauses to the query, joined by "or".
+   */
+  orWhereGroup (callback: Options.WhereGroupClosure): this {
+    return this.addWhereGroup(callback, 'or')
+  }
+
+  /**
+   * Filter records where the given field is `null` or `undefined`.
+   */
+  whereNull (field: string): this {
+    return this.where(field, 'null', null)
+  }
+
+  /**
+   * Filter records where the given field is neither `null` nor `undefined`.
+   */
+  whereNotNull (field: string): this {
+    return this.where(field, 'notNull', null)
   }
 
   /**
@@ -372,11 +593,78 @@ export default class Query<T extends Model = Model> {
     return this
   }
 
+  /**
+   * Register the where clause to the query.
+   */
+  private addWhere (field: any, operator: Options.WhereOperator | undefined, value: any, whereBoolean: Options.WhereBoolean): this {
+    operator !== undefined && this.validateWhereOperator(operator, value)
+
+    if (whereBoolean === 'or') {
+      // Cacncel id filter usage, since "or" needs full scan.
+      this.cancelIdFilter = true
+    } else if (this.isIdfilterable(field, operator)) {
+      this.setIdFilter(value)
+    }
+
+    const where: Options.Where = { field, value, boolean: whereBoolean }
+
+    if (operator !== undefined) {
+      where.operator = operator
+    }
+
+    this.wheres.push(where)
+
+    return this
+  }
+
+  /**
+   * Register the nested where group to the query.
+   */
+  private addWhereGroup (callback: Options.WhereGroupClosure, whereBoolean: Options.WhereBoolean): this {
+    const query = this.newQuery()
+
+    callback(query)
+
+    if (query.wheres.length === 0) {
+      return this
+    }
+
+    if (whereBoolean === 'or') {
+      this.cancelIdFilter = true
+    }
+
+    this.wheres.push({ wheres: query.wheres, boolean: whereBoolean })
+
+    return this
+  }
+
+  /**
+   * Check if the given where operator is supported and the value is in the
+   * shape the operator expects.
+   */
+  private validateWhereOperator (operator: Options.WhereOperator, value: any): void {
+    if (!WhereFilter.operators.includes(operator)) {
+      throw new Error(`The where operator \`${operator}\` is not supported.`)
+    }
+
+    if (operator === 'between' && !(Array.isArray(value) && value.length === 2)) {
+      throw new Error('The `between` where operator expects an array of two values.')
+    }
+
+    if ((operator === 'in' || operator === 'notIn') && !Array.isArray(value)) {
+      throw new Error(`The \`${operator}\` where operator expects an array of values.`)
+    }
+  }
+
   /**
    * Check whether the given field and value combination is filterable through
    * primary key direct look up.
    */
-  private isIdfilterable (field: any): boolean {
+  private isIdfilterable (field: any, operator?: Options.WhereOperator): boolean {
+    if (operator !== undefined && operator !== '=' && operator !== 'in') {
+      return false
+    }
+
     return field === this.model.primaryKey && !this.cancelIdFilter
   }
 
@@ -417,10 +705,50 @@ export default class Query<T extends Model = Model> {
   }
 
   /**
-   * Add an order to the query.
+   * Add an order to the query. The field may be a path through the
+   * relationships such as `author.name`, or a closure that returns the
+   * value to sort the records by.
+   */
+  orderBy (field: string | Options.OrderClosure, direction: Options.OrderDirection = 'asc', options: Options.OrderOptions = {}): this {
+    this.orders.push({ field, direction, ...options })
+
+    return this
+  }
+
+  /**
+   * Add a where clause on the pivot records of the many to many relationship
+   * being loaded. When three arguments are given, the second argument is
+   * treated as the comparison operator such as `>`.
+   */
+  wherePivot (field: string, operator?: any, value?: any): this {
+    if (arguments.length < 3) {
+      this.pivotWheres.push({ field, value: operator, boolean: 'and' })
+
+      return this
+    }
+
+    this.validateWhereOperator(operator, value)
+
+    this.pivotWheres.push({ field, operator, value, boolean: 'and' })
+
+    return this
+  }
+
+  /**
+   * Order the related records of the many to many relationship being loaded
+   * by the given field of their pivot records.
+   */
+  orderByPivot (field: string, direction: Options.OrderDirection = 'asc', options: Options.OrderOptions = {}): this {
+    this.pivotOrders.push({ field, direction, ...options })
+
+    return this
+  }
+
+  /**
+   * Add fields to group the query result by.
    */
-  orderBy (field: string, direction: Options.OrderDirection = 'asc'): this {
-    this.orders.push({ field, direction })
+  groupBy (fields: string | string[]): this {
+    this.groups.push(...(Array.isArray(fields) ? fields : [fields]))
 
     return this
   }
@@ -470,6 +798,111 @@ export default class Query<T extends Model = Model> {
     return this
   }
 
+  /**
+   * Remove the global scope of the given name from the query.
+   */
+  withoutGlobalScope (name: string): this {
+    if (!(name in this.globalScopes)) {
+      return this
+    }
+
+    const scope = this.globalScopes[name]
+
+    this.orders = this.orders.filter(order => scope.orders.indexOf(order) === -1)
+
+    delete this.globalScopes[name]
+
+    return this
+  }
+
+  /**
+   * Remove the global scopes of the given names, or all global scopes when
+   * the names are omitted, from the query.
+   */
+  withoutGlobalScopes (names?: string[]): this {
+    (names || Object.keys(this.globalScopes)).forEach(name => this.withoutGlobalScope(name))
+
+    return this
+  }
+
+  /**
+   * Include the soft deleted records in the result.
+   */
+  withTrashed (): this {
+    this.trashed = 'with'
+
+    return this
+  }
+
+  /**
+   * Retrieve only the soft deleted records.
+   */
+  onlyTrashed (): this {
+    this.trashed = 'only'
+
+    return this
+  }
+
+  /**
+   * Set the fields the result should only contain. The result will be
+   * lightweight instances that only have the given fields, along with
+   * the eager loaded relationships.
+   */
+  only (fields: string | string[]): this {
+    this.projection = [...(this.projection || []), ...(Array.isArray(fields) ? fields : [fields])]
+
+    return this
+  }
+
+  /**
+   * Add the count of the related records as `{relation}_count` attribute.
+   */
+  withCount (relation: string, constraint: Contracts.RelationshipConstraint | null = null): this {
+    Loader.withAggregate(this, relation, `${relation}_count`, Aggregates.count(), constraint)
+
+    return this
+  }
+
+  /**
+   * Add the sum of the field of the related records as
+   * `{relation}_sum_{field}` attribute.
+   */
+  withSum (relation: string, field: string, constraint: Contracts.RelationshipConstraint | null = null): this {
+    Loader.withAggregate(this, relation, `${relation}_sum_${field}`, Aggregates.sum(field), constraint)
+
+    return this
+  }
+
+  /**
+   * Add the average of the field of the related records as
+   * `{relation}_avg_{field}` attribute.
+   */
+  withAvg (relation: string, field: string, constraint: Contracts.RelationshipConstraint | null = null): this {
+    Loader.withAggregate(this, relation, `${relation}_avg_${field}`, Aggregates.avg(field), constraint)
+
+    return this
+  }
+
+  /**
+   * Add the max of the field of the related records as
+   * `{relation}_max_{field}` attribute.
+   */
+  withMax (relation: string, field: string, constraint: Contracts.RelationshipConstraint | null = null): this {
+    Loader.withAggregate(this, relation, `${relation}_max_${field}`, Aggregates.max(field), constraint)
+
+    return this
+  }
+
+  /**
+   * Add the min of the field of the related records as
+   * `{relation}_min_{field}` attribute.
+   */
+  withMin (relation: string, field: string, constraint: Contracts.RelationshipConstraint | null = null): this {
+    Loader.withAggregate(this, relation, `${relation}_min_${field}`, Aggregates.min(field), constraint)
+
+    return this
+  }
+
   /**
    * Set where constraint based on relationship existence.
    */
@@ -517,35 +950,43 @@ export default class Query<T extends Model = Model> {
   records (): Data.Collection {
     this.finalizeIdFilter()
 
-    return this.getIdsToLookup()
-      .map((id) => {
-        const model = this.state.data[id]
-
-        // Getting the typed instance
-        const hydrated = model instanceof Model ? model : this.hydrate(model)
-
-        // And ignoring if needed
-        if (!this.appliedOnBase && !(hydrated instanceof this.model)) {
-          return null
-        }
+    this.database().cache.track(this)
 
-        return hydrated
-      })
+    return this.getIdsToLookup()
+      .map(id => this.record(id))
       .filter((record) => {
         return record !== null
       }) as Data.Collection
   }
 
+  /**
+   * Get the record for the given id from the state as an instance. It returns
+   * `null` when the record is not the instance of the model being queried.
+   */
+  private record (id: string | number): Data.Instance | null {
+    const model = this.state.data[id]
+
+    // Getting the typed instance
+    const hydrated = model instanceof Model ? model : this.hydrate(model)
+
+    // And ignoring if needed
+    if (!this.appliedOnBase && !(hydrated instanceof this.model)) {
+      return null
+    }
+
+    return hydrated
+  }
+
   /**
    * Check whether if id filters should on select. If not, clear out id filter.
+   * The where clauses that set the id filter are kept in `wheres`, so the
+   * records still get filtered by them through a full scan.
    */
   private finalizeIdFilter (): void {
     if (!this.cancelIdFilter || this.idFilter === null) {
       return
     }
 
-    this.where(this.model.primaryKey, Array.from(this.idFilter.values()))
-
     this.idFilter = null
   }
 
@@ -554,6 +995,27 @@ export default class Query<T extends Model = Model> {
    * from the state.
    */
   private getIdsToLookup (): (string | number)[] {
+    const ids = this.getIdsToLookupByIdFilter()
+
+    // Narrow down the ids further by the indexed fields when possible.
+    const indexed = Indexer.lookup(this)
+
+    if (indexed === null) {
+      return ids || Object.keys(this.state.data)
+    }
+
+    if (ids === null) {
+      return Indexer.order(indexed)
+    }
+
+    return ids.filter(id => indexed.has(String(id)))
+  }
+
+  /**
+   * Get a list of id from the id filters. It returns `null` when no id
+   * filter is set.
+   */
+  private getIdsToLookupByIdFilter (): (string | number)[] | null {
     // If both id filter and joined id filter are set, intersect them.
     if (this.idFilter && this.joinedIdFilter) {
       return Array.from(this.idFilter.values()).filter((id) => {
@@ -568,8 +1030,7 @@ export default class Query<T extends Model = Model> {
       )
     }
 
-    // If none is set, return all keys.
-    return Object.keys(this.state.data)
+    return null
   }
 
   /**
@@ -579,6 +1040,42 @@ export default class Query<T extends Model = Model> {
     // At first, well apply any `has` condition to the query.
     Rollcaller.applyConstraints(this)
 
+    // When the records can be read in order from a sorted index, there's no
+    // need to go through all of them.
+    const streamed = this.stream()
+
+    if (streamed !== null) {
+      return this.executeRetrieveHook('afterLimit', streamed) as Data.Collection<T>
+    }
+
+    // Finally, slice the record by limit and offset.
+    return this.limitRecords(this.filterRecords()) as Data.Collection<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
+  }
+
+  /**
+   * Get all records matching the query sorted by its orders, ignoring its
+   * offset and limit. The `afterLimit` hooks are not executed, so that the
+   * records can be sliced by `limitRecords` later on.
+   */
+  selectAll (): Data.Collection<T> {
+    Rollcaller.applyConstraints(this)
+
+    return this.filterRecords() as Data.Collection<T>
+  }
+
+  /**
+   * Slice the given records by the offset and the limit of the query, and
+   * pass them through the `afterLimit` hooks.
+   */
+  limitRecords (records: Data.Collection): Data.Collection {
+    return this.executeRetrieveHook('afterLimit', this.filterLimit(records))
+  }
+
+  /**
+   * Get all records as an array, filtered by the where clauses and sorted by
+   * the orders, passing them through the retrieve hooks along the way.
+   */
+  private filterRecords (): Data.Collection {
     // Next, get all record as an array and then start filtering it through.
     let records = this.records()
 
@@ -595,15 +1092,71 @@ export default class Query<T extends Model = Model> {
     records = this.filterOrderBy(records)
 
     // Process `afterOrderBy` hook.
-    records = this.executeRetrieveHook('afterOrderBy', records)
+    return this.executeRetrieveHook('afterOrderBy', records)
+  }
 
-    // Finally, slice the record by limit and offset.
-    records = this.filterLimit(records)
+  /**
+   * Get the records in order from the sorted index of the order field, only
+   * until the limit is reached. It returns `null` when the query can't be
+   * served by a sorted index, such as when it's ordered by multiple fields,
+   * or when retrieve hooks need the whole collection.
+   */
+  private stream (): Data.Collection | null {
+    if (this.orders.length !== 1 || this.offsetNumber < 0 || this.limitNumber <= 0) {
+      return null
+    }
+
+    if (['beforeSelect', 'afterWhere', 'afterOrderBy'].some(on => this.hasRetrieveHook(on))) {
+      return null
+    }
 
-    // Process `afterLimit` hook.
-    records = this.executeRetrieveHook('afterLimit', records)
+    const { field, direction, ...options } = this.orders[0]
+
+    if (typeof field !== 'string' || Object.keys(options).length > 0) {
+      return null
+    }
 
-    return records as Data.Collection<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
+    const index = Indexer.getSortedIndex(this, field)
+
+    if (index === null) {
+      return null
+    }
+
+    this.finalizeIdFilter()
+
+    // When the records are narrowed down by the ids, sorting them is
+    // cheaper than going through the index.
+    if (this.idFilter || this.joinedIdFilter || Indexer.lookup(this, field) !== null) {
+      return null
+    }
+
+    this.database().cache.track(this)
+
+    const [from, to] = Indexer.range(this, field, index)
+
+    const records: Data.Collection = []
+
+    let skip = this.offsetNumber
+
+    index.each(from, to, direction, (id) => {
+      const record = this.record(id)
+
+      if (record === null || !WhereFilter.check(this, record)) {
+        return
+      }
+
+      if (skip > 0) {
+        skip--
+
+        return
+      }
+
+      records.push(record)
+
+      return records.length < this.limitNumber
+    })
+
+    return records
   }
 
   /**
@@ -631,50 +1184,52 @@ export default class Query<T extends Model = Model> {
    * Get the count of the retrieved data.
    */
   count (): number {
-    return this.get().length
+    return Aggregates.count()(this.select())
   }
 
   /**
    * Get the max value of the specified filed.
    */
   max (field: string): number {
-    const numbers = this.get().reduce<number[]>((numbers, item) => {
-      if (typeof item[field] === 'number') {
-        numbers.push(item[field])
-      }
-
-      return numbers
-    }, [])
-
-    return numbers.length === 0 ? 0 : Math.max(...numbers)
+    return Aggregates.max(field)(this.select())
   }
 
   /**
    * Get the min value of the specified filed.
    */
   min (field: string): number {
-    const numbers = this.get().reduce<number[]>((numbers, item) => {
-      if (typeof item[field] === 'number') {
-        numbers.push(item[field])
-      }
-
-      return numbers
-    }, [])
-
-    return numbers.length === 0 ? 0 : Math.min(...numbers)
+    return Aggregates.min(field)(this.select())
   }
 
   /**
    * Get the sum value of the specified filed.
    */
   sum (field: string): number {
-    return this.get().reduce<number>((sum, item) => {
-      if (typeof item[field] === 'number') {
-        sum += item[field]
-      }
+    return Aggregates.sum(field)(this.select())
+  }
+
+  /**
+   * Get the average value of the specified filed.
+   */
+  avg (field: string): number {
+    return Aggregates.avg(field)(this.select())
+  }
 
-      return sum
-    }, 0)
+  /**
+   * Get the retrieved data grouped by the group fields. Each group holds the
+   * values of the group fields as `key`, and its records as `data`.
+   */
+  getGroups (): Contracts.Group<T>[] {
+    return Grouper.group(this, this.get()) as Contracts.Group<T>[]
+  }
+
+  /**
+   * Aggregate the retrieved data by the given aggregators for each group. It
+   * returns a row for each group containing the values of the group fields
+   * and the results of the aggregators.
+   */
+  aggregate (aggregates: Options.Aggregates): Data.Record[] {
+    return Grouper.aggregate(this, this.select(), aggregates)
   }
 
   /**
@@ -685,13 +1240,18 @@ export default class Query<T extends Model = Model> {
       return null
     }
 
-    if (Object.keys(this.load).length > 0) {
+    if (this.projection !== null) {
+      return Projector.project(this, [item])[0]
+    }
+
+    if (this.hasEagerLoads()) {
 
       const model = this.model.getModelFromRecord(item) as typeof Model
 
-      item = new model(item)
+      item = ChangeTracker.lazily(() => new model(item as Data.Instance))
 
       Loader.eagerLoadRelations(this, [item])
+      Loader.eagerLoadAggregates(this, [item])
     }
 
     return item
@@ -705,32 +1265,76 @@ export default class Query<T extends Model = Model> {
       return []
     }
 
-    if (Object.keys(this.load).length > 0) {
-      collection = collection.map(item => {
+    if (this.projection !== null) {
+      return Projector.project(this, collection)
+    }
+
+    if (this.hasEagerLoads()) {
+      collection = ChangeTracker.lazily(() => collection.map(item => {
 
         const model = this.model.getModelFromRecord(item) as typeof Model
         return new model(item)
-      })
+      }))
 
       Loader.eagerLoadRelations(this, collection)
+      Loader.eagerLoadAggregates(this, collection)
     }
 
     return collection
   }
 
+  /**
+   * Check if there's any relationship or relationship aggregate that should
+   * be eager loaded. If so, new instances have to be created for the result
+   * so that the records in the store are left untouched.
+   */
+  hasEagerLoads (): boolean {
+    return Object.keys(this.load).length > 0 || this.relationAggregates.length > 0
+  }
+
+  /**
+   * Merge the given instances into the data in the store.
+   */
+  private commitData (instances: Data.Instances): void {
+    const previous = this.state.data
+
+    this.state.data = { ...previous, ...instances }
+
+    Indexer.update(this.state, previous, instances)
+
+    this.recordHistory(previous, instances)
+  }
+
   /**
    * Filter all data in the store by the given predicate.
    */
   private filterData (predicate: Contracts.Predicate): void {
-    this.state.data = Object.keys(this.state.data).reduce<Data.Instances>((models, id) => {
-      const model = this.state.data[id]
+    const previous = this.state.data
+    const removed: string[] = []
+
+    this.state.data = Object.keys(previous).reduce<Data.Instances>((models, id) => {
+      const model = previous[id]
 
       if (predicate(model)) {
         models[id] = model
+      } else {
+        removed.push(id)
       }
 
       return models
     }, {})
+
+    Indexer.update(this.state, previous, {}, removed)
+
+    this.recordHistory(previous, {}, removed)
+  }
+
+  /**
+   * Record the change of the data to the history, unless the model opts
+   * out of the history.
+   */
+  private recordHistory (previous: Data.Instances, instances: Data.Instances, removed: string[] = []): void {
+    this.model.history && this.database().history.track(this.state.$name, previous, instances, removed)
   }
 
   /**
@@ -761,7 +1365,7 @@ export default class Query<T extends Model = Model> {
 
     const createCallback = () => {
       this.emptyState()
-      this.state.data = { ...this.state.data, ...instances }
+      this.commitData(instances)
     }
 
     this.commitCreateOnRecords(instances, createCallback)
@@ -785,7 +1389,7 @@ export default class Query<T extends Model = Model> {
     const instances = this.hydrateMany(records)
 
     this.commitCreateOnRecords(instances, () => {
-      this.state.data = { ...this.state.data, ...instances }
+      this.commitData(instances)
     })
 
     return this.map(instances) as Data.Collection<T> // TODO: Delete "as ..." when model type coverage reaches 100%.
@@ -911,10 +1515,15 @@ export default class Query<T extends Model = Model> {
    * Update the given record with given data.
    */
   processUpdate (data: Data.Record | UpdateClosure, instance: Data.Instance): Data.Instance {
+    // The closure is given a copy of the instance, so that the record in the
+    // store gets replaced instead of being changed in place.
     if (typeof data === 'function') {
-      (data as UpdateClosure)(instance)
+      const closure = data as UpdateClosure
+      const copy = this.processUpdate(Utils.cloneDeep({ ...instance }), instance)
 
-      return instance
+      closure(copy)
+
+      return copy
     }
 
     // When the updated instance is not the base model, we tell te hydrate what model to use
@@ -931,7 +1540,7 @@ export default class Query<T extends Model = Model> {
     instances = this.updateIndexes(instances)
 
     this.commitUpdateOnRecords(instances, () => {
-      this.state.data = { ...this.state.data, ...instances }
+      this.commitData(instances)
     })
 
     return this.map(instances)
@@ -1018,6 +1627,8 @@ export default class Query<T extends Model = Model> {
       return {}
     }
 
+    options.validate && this.validate(data, method, options)
+
     return Object.keys(data).reduce((collection, entity) => {
       const query = this.newQuery(entity)
       const persistMethod = this.getPersistMethod(entity, method, options)
@@ -1031,6 +1642,41 @@ export default class Query<T extends Model = Model> {
     }, {} as Data.Collections)
   }
 
+  /**
+   * Validate the records of the normalized data as they would be persisted,
+   * and throw a validation error when any of them is invalid. Nothing gets
+   * persisted in that case.
+   */
+  private validate (data: Data.NormalizedData, method: string, options: PersistOptions): void {
+    const errors = Object.keys(data).reduce<EntityValidationErrors>((errors, entity) => {
+      const query = this.newQuery(entity)
+      const persistMethod = query.getPersistMethod(entity, method, options)
+
+      // The records to be updated are merged with the existing ones, so we'll
+      // validate the merged records rather than the partial ones.
+      const instances = persistMethod === 'create' || persistMethod === 'insert'
+        ? query.hydrateMany(data[entity])
+        : persistMethod === 'update'
+          ? query.combine(data[entity])
+          : { ...query.hydrateMany(data[entity]), ...query.combine(data[entity]) }
+
+      Object.keys(instances).forEach((id) => {
+        const instanceErrors = Validation.validateSync(instances[id])
+
+        if (Object.keys(instanceErrors).length > 0) {
+          errors[entity] = errors[entity] || {}
+          errors[entity][id] = instanceErrors
+        }
+      })
+
+      return errors
+    }, {})
+
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError(errors)
+    }
+  }
+
   /**
    * Get method for the persist.
    */
@@ -1084,23 +1730,72 @@ export default class Query<T extends Model = Model> {
     return this.deleteByCondition(model => model instanceof this.model)
   }
 
+  /**
+   * Delete matching records with the given condition from the store, even
+   * when the model soft deletes records.
+   */
+  forceDelete (condition: string | number | (number | string)[]): Data.Item
+  forceDelete (condition: Contracts.Predicate): Data.Collection
+  forceDelete (condition: any): any {
+    this.withTrashed()
+
+    if (typeof condition === 'function') {
+      return this.deleteByCondition(condition, true)
+    }
+
+    return this.deleteById(condition, true)
+  }
+
+  /**
+   * Restore the soft deleted records matching the given condition.
+   */
+  restore (condition: string | number | (number | string)[]): Data.Item
+  restore (condition: Contracts.Predicate): Data.Collection
+  restore (condition: any): any {
+    this.onlyTrashed()
+
+    if (typeof condition === 'function') {
+      return this.restoreByCondition(condition)
+    }
+
+    const item = this.find(condition)
+
+    if (!item) {
+      return null
+    }
+
+    return this.restoreByCondition(model => model.$id === item.$id)[0]
+  }
+
   /**
    * Delete a record from the store by given id.
    */
-  private deleteById (id: string | number | (number | string)[]): Data.Item {
+  private deleteById (id: string | number | (number | string)[], force: boolean = false): Data.Item {
     const item = this.find(id)
 
     if (!item) {
       return null
     }
 
-    return this.deleteByCondition(model => model.$id === item.$id)[0]
+    return this.deleteByCondition(model => model.$id === item.$id, force)[0]
   }
 
   /**
-   * Perform the actual delete query to the store.
+   * Perform the actual delete query to the store. When the model soft
+   * deletes records, the records are only marked as deleted unless forced.
    */
-  private deleteByCondition (condition: Contracts.Predicate): Data.Collection {
+  private deleteByCondition (condition: Contracts.Predicate, force: boolean = false): Data.Collection {
+    if (!force && this.model.softDeletes !== null) {
+      return this.trashByCondition(condition)
+    }
+
+    // When the records have relationships with delete policies, we'll make
+    // sure up front that the delete can go through all the way, so that
+    // nothing gets deleted when a `restrict` policy aborts it.
+    const cascades = Cascader.hasPolicies(this.model)
+
+    cascades && Cascader.check(this, Object.keys(this.state.data).map(id => this.state.data[id]).filter(model => condition(model)))
+
     const deleted: Data.Collection = []
 
     this.filterData((model) => {
@@ -1119,9 +1814,63 @@ export default class Query<T extends Model = Model> {
       return false
     })
 
+    cascades && Cascader.apply(this, deleted, force)
+
     return deleted
   }
 
+  /**
+   * Mark the records matching the given condition as soft deleted. The
+   * records already soft deleted are left untouched.
+   */
+  private trashByCondition (condition: Contracts.Predicate): Data.Collection {
+    const deletedAt = new Date().toISOString()
+
+    const instances = this.setSoftDeletes(condition, deletedAt, (model) => {
+      return this.executeBeforeDeleteHook(model) !== false
+    })
+
+    this.commitData(instances)
+
+    const deleted = this.map(instances)
+
+    deleted.forEach(model => this.executeAfterDeleteHook(model))
+
+    return deleted
+  }
+
+  /**
+   * Restore the soft deleted records matching the given condition.
+   */
+  private restoreByCondition (condition: Contracts.Predicate): Data.Collection {
+    const instances = this.setSoftDeletes(condition, null, () => true)
+
+    this.commitData(instances)
+
+    return this.map(instances)
+  }
+
+  /**
+   * Create the instances of the records matching the given condition, with
+   * the soft delete field set to the given value. Only the records whose
+   * soft delete state changes by the value are included.
+   */
+  private setSoftDeletes (condition: Contracts.Predicate, value: string | null, accept: (model: Model) => boolean): Data.Instances {
+    const field = this.model.softDeletes as string
+
+    return Object.keys(this.state.data).reduce<Data.Instances>((instances, id) => {
+      const model = this.state.data[id]
+
+      if (this.model.isTrashed(model) === (value !== null) || !condition(model) || !accept(model)) {
+        return instances
+      }
+
+      instances[id] = this.hydrate({ ...model, [field]: value })
+
+      return instances
+    }, {})
+  }
+
   /**
    * Normalize the given data.
    */
@@ -1130,9 +1879,18 @@ export default class Query<T extends Model = Model> {
   }
 
   /**
-   * Convert given record to the model instance.
+   * Convert given record to the model instance. The instance is stored in
+   * the state or handed out as the result of the query, so it's filled
+   * lazily without taking the deep snapshot of its values.
    */
   hydrate (record: Data.Record, forceModel?: typeof Model): Data.Instance {
+    return ChangeTracker.lazily(() => this.instantiate(record, forceModel))
+  }
+
+  /**
+   * Create the model instance from the given record.
+   */
+  private instantiate (record: Data.Record, forceModel?: typeof Model): Data.Instance {
 
     if (forceModel !== undefined) {
       return new forceModel(record)
@@ -1213,17 +1971,31 @@ export default class Query<T extends Model = Model> {
    * - only derived instances if applied to a derived entity
    */
   private emptyState (): void {
+    Indexer.flush(this.state)
+
     if (this.appliedOnBase) {
+      const previous = this.state.data
+
       this.state.data = {}
 
+      this.recordHistory(previous, {}, Object.keys(previous))
+
       return
     }
 
-    for (const id in this.state.data) {
-      if (this.state.data[id] instanceof this.model) {
-        delete this.state.data[id]
-      }
-    }
+    // The data is replaced rather than changed in place, since it may be
+    // shared with the state outside of the transaction.
+    this.filterData(model => !(model instanceof this.model))
+  }
+
+  /**
+   * Execute the callback after the changes were committed. While a
+   * transaction is in progress, it's deferred until the transaction ends.
+   */
+  private afterCommit (callback: () => void): void {
+    const transaction = this.database().activeTransaction
+
+    transaction === null ? callback() : transaction.defer(callback)
   }
 
   /**
@@ -1238,6 +2010,26 @@ export default class Query<T extends Model = Model> {
     return collection
   }
 
+  /**
+   * Check if any retrieve hook is registered for the query.
+   */
+  hasRetrieveHooks (): boolean {
+    return ['beforeSelect', 'afterWhere', 'afterOrderBy', 'afterLimit'].some(on => this.hasRetrieveHook(on))
+  }
+
+  /**
+   * Check if any retrieve hook is registered for the given method.
+   */
+  private hasRetrieveHook (on: string): boolean {
+    if (typeof this.model[on] === 'function') {
+      return true
+    }
+
+    const hooks = this.self().hooks[on]
+
+    return hooks ? hooks.length > 0 : false
+  }
+
   /**
    * Execute local retrieve hook for the given method.
    */
@@ -1314,8 +2106,10 @@ export default class Query<T extends Model = Model> {
    * Execute after create hook to the given model.
    */
   private executeAfterCreateHook (model: Model): void {
-    this.executeLocalAfterCreateHook(model)
-    this.executeGlobalAfterCreateHook(model)
+    this.afterCommit(() => {
+      this.executeLocalAfterCreateHook(model)
+      this.executeGlobalAfterCreateHook(model)
+    })
   }
 
   /**
@@ -1395,8 +2189,10 @@ export default class Query<T extends Model = Model> {
    * Execute after update hook to the given model.
    */
   private executeAfterUpdateHook (model: Model): void {
-    this.executeLocalAfterUpdateHook(model)
-    this.executeGlobalAfterUpdateHook(model)
+    this.afterCommit(() => {
+      this.executeLocalAfterUpdateHook(model)
+      this.executeGlobalAfterUpdateHook(model)
+    })
   }
 
   /**
@@ -1463,8 +2259,10 @@ export default class Query<T extends Model = Model> {
    * Execute after delete hook to the given model.
    */
   private executeAfterDeleteHook (model: Model): void {
-    this.executeLocalAfterDeleteHook(model)
-    this.executeGlobalAfterDeleteHook(model)
+    this.afterCommit(() => {
+      this.executeLocalAfterDeleteHook(model)
+      this.executeGlobalAfterDeleteHook(model)
+    })
   }
 
   /**
@@ -0,0 +1,73 @@
+import Collection from '../../data/Collection'
+import Aggregator from '../contracts/Aggregator'
+
+/**
+ * Get the numeric values of the given field from the records.
+ */
+function numbers (records: Collection, field: string): number[] {
+  return records.reduce<number[]>((numbers, record) => {
+    if (typeof record[field] === 'number') {
+      numbers.push(record[field])
+    }
+
+    return numbers
+  }, [])
+}
+
+/**
+ * Count the records.
+ */
+export function count (): Aggregator {
+  return records => records.length
+}
+
+/**
+ * Get the sum of the numeric values of the given field.
+ */
+export function sum (field: string): Aggregator {
+  return records => numbers(records, field).reduce((sum, value) => sum + value, 0)
+}
+
+/**
+ * Get the average of the numeric values of the given field. It returns `0`
+ * when there are no numeric values.
+ */
+export function avg (field: string): Aggregator {
+  return (records) => {
+    const values = numbers(records, field)
+
+    return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length
+  }
+}
+
+/**
+ * Get the max of the numeric values of the given field. It returns `0` when
+ * there are no numeric values.
+ */
+export function max (field: string): Aggregator {
+  return (records) => {
+    const values = numbers(records, field)
+
+    return values.length === 0 ? 0 : Math.max(...values)
+  }
+}
+
+/**
+ * Get the min of the numeric values of the given field. It returns `0` when
+ * there are no numeric values.
+ */
+export function min (field: string): Aggregator {
+  return (records) => {
+    const values = numbers(records, field)
+
+    return values.length === 0 ? 0 : Math.min(...values)
+  }
+}
+
+export default {
+  count,
+  sum,
+  avg,
+  max,
+  min
+}
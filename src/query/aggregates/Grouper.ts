@@ -0,0 +1,76 @@
+import Record from '../../data/Record'
+import Collection from '../../data/Collection'
+import * as Contracts from '../contracts'
+import * as Options from '../options'
+import Query from '../Query'
+
+export interface GroupNode {
+  children: Map<any, GroupNode>
+  group: Contracts.Group | null
+}
+
+export default class Grouper {
+  /**
+   * Group the given records by the group fields of the query. The groups are
+   * in the order their first record appears in the records. When the query
+   * has no group fields, all records belong to a single group.
+   */
+  static group (query: Query, records: Collection): Contracts.Group[] {
+    const groups: Contracts.Group[] = []
+
+    // The groups are looked up through a tree of maps keyed by the value of
+    // each group field, so values are compared by identity, not as strings.
+    const root: GroupNode = { children: new Map(), group: null }
+
+    records.forEach((record) => {
+      const node = query.groups.reduce((node, field) => {
+        const value = record[field]
+
+        node.children.has(value) || node.children.set(value, { children: new Map(), group: null })
+
+        return node.children.get(value) as GroupNode
+      }, root)
+
+      if (node.group === null) {
+        node.group = { key: this.getKey(query, record), data: [] }
+
+        groups.push(node.group)
+      }
+
+      node.group.data.push(record)
+    })
+
+    // Without group fields, there's always a single group even if there are
+    // no records, the same way as aggregating a whole table in SQL.
+    if (query.groups.length === 0 && groups.length === 0) {
+      groups.push({ key: {}, data: [] })
+    }
+
+    return groups
+  }
+
+  /**
+   * Aggregate each group of the given records. Each row contains the values
+   * of the group fields and the result of each aggregator.
+   */
+  static aggregate (query: Query, records: Collection, aggregates: Options.Aggregates): Record[] {
+    return this.group(query, records).map((group) => {
+      return Object.keys(aggregates).reduce((row, name) => {
+        row[name] = aggregates[name](group.data)
+
+        return row
+      }, { ...group.key })
+    })
+  }
+
+  /**
+   * Get the values of the group fields of the given record.
+   */
+  private static getKey (query: Query, record: Record): Record {
+    return query.groups.reduce<Record>((key, field) => {
+      key[field] = record[field]
+
+      return key
+    }, {})
+  }
+}
@@ -0,0 +1,379 @@
+import Utils from '../../support/Utils'
+import * as Attributes from '../../attributes'
+import * as Data from '../../data'
+import Record from '../../data/Record'
+import Model from '../../model/Model'
+import ChangeTracker from '../../model/ChangeTracker'
+import State from '../../modules/contracts/State'
+import * as Contracts from '../contracts'
+import Query from '../Query'
+
+export interface CacheEntry {
+  /**
+   * The cached result of the query.
+   */
+  result: any
+
+  /**
+   * The data of each entity state the result was built from.
+   */
+  dependencies: Map<State, Data.Instances>
+}
+
+export interface CacheFrame {
+  /**
+   * The data of each entity state read while building the result.
+   */
+  dependencies: Map<State, Data.Instances>
+
+  /**
+   * Whether if the result can be cached.
+   */
+  cacheable: boolean
+}
+
+export default class QueryCache {
+  /**
+   * Whether if the query results should be cached.
+   */
+  enabled: boolean = false
+
+  /**
+   * The maximum number of the cached results. The least recently used
+   * result gets evicted when the cache is full.
+   */
+  size: number = 500
+
+  /**
+   * The number of the queries served from the cache.
+   */
+  hits: number = 0
+
+  /**
+   * The number of the queries that had to be executed.
+   */
+  misses: number = 0
+
+  /**
+   * The cached results keyed by the query description.
+   */
+  entries: Map<string, CacheEntry> = new Map()
+
+  /**
+   * The stack of the results being built. Queries executed while building
+   * a result, such as relation queries, are not cached on their own but
+   * their entities are tracked as the dependencies of the result.
+   */
+  frames: CacheFrame[] = []
+
+  /**
+   * Get the result of the given query from the cache, or execute the callback
+   * and cache its result.
+   */
+  remember<R> (query: Query, method: string, callback: () => R): R {
+    if (!this.enabled || this.frames.length > 0) {
+      return callback()
+    }
+
+    const key = this.key(query, method)
+
+    const entry = key === null ? undefined : this.entries.get(key)
+
+    if (key !== null && entry !== undefined && this.isFresh(entry)) {
+      this.hits++
+
+      // Move the entry to the end so it's evicted last.
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+
+      return this.copy(query, entry.result)
+    }
+
+    this.misses++
+
+    const frame: CacheFrame = { dependencies: new Map(), cacheable: key !== null }
+
+    this.frames.push(frame)
+
+    let result: R
+
+    try {
+      result = callback()
+    } finally {
+      this.frames.pop()
+    }
+
+    if (key !== null && frame.cacheable) {
+      this.put(key, { result, dependencies: frame.dependencies })
+    }
+
+    return this.copy(query, result)
+  }
+
+  /**
+   * Execute the callback and get the data of each entity state read while
+   * executing it, along with its result. The result is never cached.
+   */
+  trace<R> (callback: () => R): { result: R, dependencies: Map<State, Data.Instances> } {
+    const frame: CacheFrame = { dependencies: new Map(), cacheable: false }
+
+    this.frames.push(frame)
+
+    try {
+      return { result: callback(), dependencies: frame.dependencies }
+    } finally {
+      this.frames.pop()
+    }
+  }
+
+  /**
+   * Register the state of the given query as a dependency of the results
+   * being built.
+   */
+  track (query: Query): void {
+    const cacheable = !query.hasRetrieveHooks()
+
+    this.frames.forEach((frame) => {
+      frame.cacheable = frame.cacheable && cacheable
+
+      frame.dependencies.has(query.state) || frame.dependencies.set(query.state, query.state.data)
+    })
+  }
+
+  /**
+   * Invalidate the cached results depending on the given state, after its
+   * records were changed in place. The data gets replaced with a copy so
+   * that the watchers depending on the data are notified as well.
+   */
+  invalidate (state: State): void {
+    if (!this.enabled || !state) {
+      return
+    }
+
+    state.data = { ...state.data }
+  }
+
+  /**
+   * Remove all cached results.
+   */
+  flush (): void {
+    this.entries.clear()
+  }
+
+  /**
+   * Check if none of the dependencies of the given entry was changed since it
+   * was cached. It also reads the data of each dependency so that the Vue
+   * watchers, such as computed properties, keep tracking them.
+   */
+  private isFresh (entry: CacheEntry): boolean {
+    let fresh = true
+
+    entry.dependencies.forEach((data, state) => {
+      fresh = state.data === data && fresh
+    })
+
+    return fresh
+  }
+
+  /**
+   * Add the given entry to the cache, evicting the least recently used
+   * entry when the cache is full.
+   */
+  private put (key: string, entry: CacheEntry): void {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.size) {
+      this.entries.delete(this.entries.keys().next().value)
+    }
+  }
+
+  /**
+   * Copy the given result so that changing it doesn't affect the cached one,
+   * nor the results the other callers got. The records held by the store are
+   * returned as they are, the same as when the result isn't cached, but the
+   * instances built by the query, such as the ones with the relationships
+   * loaded, are copied.
+   */
+  private copy<R> (query: Query, result: R): R {
+    if (!query.hasEagerLoads() && query.projection === null) {
+      return Array.isArray(result) ? result.slice() as any : result
+    }
+
+    return this.clone(result)
+  }
+
+  /**
+   * Create a deep copy of the given value. The model instances are copied
+   * along with all of their properties, including the loaded relationships
+   * and the aggregates, keeping their prototypes.
+   */
+  private clone (value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.clone(item))
+    }
+
+    if (!(value instanceof Model)) {
+      return Utils.cloneDeep(value)
+    }
+
+    const copy: Record = Object.create(Object.getPrototypeOf(value))
+
+    Object.keys(value).forEach((key) => {
+      copy[key] = this.clone(value[key])
+    })
+
+    ChangeTracker.copy(value, copy as Model)
+
+    return copy
+  }
+
+  /**
+   * Get the cache key for the given query. It returns `null` when the query
+   * can't be cached, such as when it has closures as where clauses.
+   */
+  key (query: Query, method: string): string | null {
+    const description = QueryCache.describe(query)
+
+    if (description === null) {
+      return null
+    }
+
+    let cacheable = true
+
+    const key = JSON.stringify({ method, query: description }, function (this: any, name: string, value: any) {
+      const raw = this[name]
+
+      if (raw instanceof Date) {
+        return { $date: raw.getTime() }
+      }
+
+      if (raw === undefined) {
+        return { $undefined: true }
+      }
+
+      if (typeof raw === 'function' || (raw !== null && typeof raw === 'object' && !QueryCache.isPlain(raw))) {
+        cacheable = false
+      }
+
+      return value
+    })
+
+    return cacheable ? key : null
+  }
+
+  /**
+   * Describe the given query as a plain object. The eager load constraints
+   * are described by applying them to a query for the related model. It
+   * returns `null` when the query can't be described.
+   */
+  static describe (query: Query): object | null {
+    if (query.hasRetrieveHooks() || query.have.some(has => has.constraint !== null)) {
+      return null
+    }
+
+    const load: { [name: string]: object } = {}
+
+    for (const name in query.load) {
+      const description = this.describeConstraints(query, name, query.load[name])
+
+      if (description === null) {
+        return null
+      }
+
+      load[name] = description
+    }
+
+    const relationAggregates: object[] = []
+
+    for (let i = 0; i < query.relationAggregates.length; i++) {
+      const { relation, name, constraint } = query.relationAggregates[i]
+
+      // The name of the aggregate tells which aggregator is used, so the
+      // aggregator itself doesn't have to be described.
+      const description = this.describeConstraints(query, relation, constraint ? [constraint] : [])
+
+      if (description === null) {
+        return null
+      }
+
+      relationAggregates.push({ relation, name, constraint: description })
+    }
+
+    return {
+      entity: query.entity,
+      wheres: query.wheres,
+      globalScopes: query.globalScopes,
+      orders: query.orders,
+      offset: query.offsetNumber,
+      limit: query.limitNumber,
+      ids: query.idFilter && Array.from(query.idFilter.values()),
+      joinedIds: query.joinedIdFilter && Array.from(query.joinedIdFilter.values()),
+      cancelIds: query.cancelIdFilter,
+      have: query.have,
+      load,
+      relationAggregates,
+      projection: query.projection,
+      pivotWheres: query.pivotWheres,
+      pivotOrders: query.pivotOrders,
+      trashed: query.trashed
+    }
+  }
+
+  /**
+   * Describe the given constraints of the relation.
+   */
+  private static describeConstraints (query: Query, name: string, constraints: Contracts.RelationshipConstraint[]): object | null {
+    if (constraints.length === 0) {
+      return {}
+    }
+
+    const relation = query.model.getFields()[name] || query.model.findRelationInSubTypes(name)
+
+    const related = relation instanceof Attributes.Relation ? this.getRelatedModel(relation) : null
+
+    if (related === null) {
+      return null
+    }
+
+    const relatedQuery = query.newQuery(related.entity)
+
+    constraints.forEach(constraint => { constraint(relatedQuery) })
+
+    return this.describe(relatedQuery)
+  }
+
+  /**
+   * Get the model the given relation loads. It returns `null` for the
+   * polymorphic relation since it may load any model.
+   */
+  private static getRelatedModel (relation: Attributes.Relation): typeof Model | null {
+    if (relation instanceof Attributes.BelongsTo || relation instanceof Attributes.HasManyBy) {
+      return relation.parent
+    }
+
+    if (
+      relation instanceof Attributes.HasOne ||
+      relation instanceof Attributes.HasMany ||
+      relation instanceof Attributes.HasManyThrough ||
+      relation instanceof Attributes.BelongsToMany ||
+      relation instanceof Attributes.MorphOne ||
+      relation instanceof Attributes.MorphMany ||
+      relation instanceof Attributes.MorphToMany ||
+      relation instanceof Attributes.MorphedByMany
+    ) {
+      return relation.related
+    }
+
+    return null
+  }
+
+  /**
+   * Check if the given value is a plain object or an array.
+   */
+  private static isPlain (value: object): boolean {
+    const prototype = Object.getPrototypeOf(value)
+
+    return prototype === Object.prototype || prototype === Array.prototype || prototype === null
+  }
+}
@@ -0,0 +1,135 @@
+import * as Data from '../../data'
+import Model from '../../model/Model'
+import Relation from '../../attributes/relations/Relation'
+import Dependents from '../../attributes/contracts/Dependents'
+import Query from '../Query'
+
+export interface Policy {
+  name: string
+  relation: Relation
+  dependents: Dependents
+}
+
+export default class Cascader {
+  /**
+   * Check if the given model, or any of the models inheriting it, has a
+   * relationship with a delete policy.
+   */
+  static hasPolicies (model: typeof Model): boolean {
+    const types = model.types()
+
+    return [model, ...Object.keys(types).map(type => types[type])].some(candidate => this.getPolicyRelations(candidate).length > 0)
+  }
+
+  /**
+   * Make sure the given models can be deleted along with all the records
+   * the delete would cascade to. It throws when any `restrict` policy finds
+   * related records, so that nothing gets deleted.
+   */
+  static check (query: Query, models: Data.Collection, checked: Set<Model> = new Set()): void {
+    const unchecked = models.filter(model => !checked.has(model))
+
+    unchecked.forEach(model => checked.add(model))
+
+    this.getPolicies(unchecked).forEach(({ name, relation, dependents }) => {
+      if (dependents.pivot && relation.deletePolicy === 'setNull') {
+        throw new Error(`The \`setNull\` delete policy can't be used with the \`${name}\` relationship of \`${relation.model.entity}\` since it's pivot-based. Use \`detach\` instead.`)
+      }
+
+      if (relation.deletePolicy !== 'restrict' && relation.deletePolicy !== 'cascade') {
+        return
+      }
+
+      const records = this.getRecords(query, dependents)
+
+      if (records.length === 0) {
+        return
+      }
+
+      if (relation.deletePolicy === 'restrict') {
+        throw new Error(`The \`${relation.model.entity}\` records can't be deleted since they have related records in the \`${name}\` relationship.`)
+      }
+
+      this.check(query, records, checked)
+    })
+  }
+
+  /**
+   * Apply the delete policies of the given models that were deleted.
+   */
+  static apply (query: Query, models: Data.Collection, force: boolean): void {
+    this.getPolicies(models).forEach(({ relation, dependents }) => {
+      const dependentQuery = query.newQuery(dependents.entity)
+
+      // For the pivot-based relationships, the pivot records are deleted for
+      // both `cascade` and `detach`, leaving the related records untouched.
+      if (relation.deletePolicy === 'cascade' || (relation.deletePolicy === 'detach' && dependents.pivot)) {
+        force ? dependentQuery.forceDelete(dependents.condition) : dependentQuery.delete(dependents.condition)
+
+        return
+      }
+
+      if (relation.deletePolicy === 'setNull' || relation.deletePolicy === 'detach') {
+        const data = dependents.keys.reduce<Data.Record>((data, key) => {
+          data[key] = null
+
+          return data
+        }, {})
+
+        dependentQuery.update(data, dependents.condition, {})
+      }
+    })
+  }
+
+  /**
+   * Get the delete policies of the relationships of the given models, along
+   * with the records depending on the models. The models are grouped by
+   * their model class so that the inherited models get their own policies.
+   */
+  private static getPolicies (models: Data.Collection): Policy[] {
+    const groups = new Map<typeof Model, Data.Collection>()
+
+    models.forEach((model) => {
+      const group = groups.get(model.$self())
+
+      group ? group.push(model) : groups.set(model.$self(), [model])
+    })
+
+    const policies: Policy[] = []
+
+    groups.forEach((collection, model) => {
+      this.getPolicyRelations(model).forEach(({ name, relation }) => {
+        const dependents = relation.getDependents(collection)
+
+        dependents && policies.push({ name, relation, dependents })
+      })
+    })
+
+    return policies
+  }
+
+  /**
+   * Get the relationships of the given model that have a delete policy.
+   */
+  private static getPolicyRelations (model: typeof Model): { name: string, relation: Relation }[] {
+    const fields = model.getFields()
+
+    return Object.keys(fields).reduce<{ name: string, relation: Relation }[]>((relations, name) => {
+      const field = fields[name]
+
+      if (field instanceof Relation && field.deletePolicy !== null) {
+        relations.push({ name, relation: field })
+      }
+
+      return relations
+    }, [])
+  }
+
+  /**
+   * Get all of the dependent records, including the soft deleted ones and
+   * the ones hidden by global scopes.
+   */
+  private static getRecords (query: Query, dependents: Dependents): Data.Collection {
+    return query.newQuery(dependents.entity).withTrashed().withoutGlobalScopes().where(dependents.condition).get()
+  }
+}
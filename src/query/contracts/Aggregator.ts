@@ -0,0 +1,5 @@
+import Collection from '../../data/Collection'
+
+export type Aggregator = (records: Collection) => any
+
+export default Aggregator
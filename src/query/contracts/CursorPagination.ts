@@ -0,0 +1,10 @@
+import Model from '../../model/Model'
+import Record from '../../data/Record'
+import Collection from '../../data/Collection'
+
+export interface CursorPagination<M extends Model = Model> {
+  data: Collection<M>
+  next: Record | null
+}
+
+export default CursorPagination
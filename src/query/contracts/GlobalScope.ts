@@ -0,0 +1,5 @@
+import Query from '../Query'
+
+export type GlobalScope = (query: Query) => void
+
+export default GlobalScope
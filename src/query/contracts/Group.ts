@@ -0,0 +1,10 @@
+import Model from '../../model/Model'
+import Record from '../../data/Record'
+import Collection from '../../data/Collection'
+
+export interface Group<M extends Model = Model> {
+  key: Record
+  data: Collection<M>
+}
+
+export default Group
@@ -0,0 +1,10 @@
+import Model from '../../model/Model'
+import Collection from '../../data/Collection'
+
+export interface LiveQueryChanges<M extends Model = Model> {
+  added: Collection<M>
+  removed: Collection<M>
+  changed: Collection<M>
+}
+
+export default LiveQueryChanges
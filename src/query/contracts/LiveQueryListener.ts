@@ -0,0 +1,7 @@
+import Model from '../../model/Model'
+import Collection from '../../data/Collection'
+import LiveQueryChanges from './LiveQueryChanges'
+
+export type LiveQueryListener<M extends Model = Model> = (result: Collection<M>, changes: LiveQueryChanges<M>) => void
+
+export default LiveQueryListener
@@ -0,0 +1,12 @@
+import Model from '../../model/Model'
+import Collection from '../../data/Collection'
+
+export interface Pagination<M extends Model = Model> {
+  data: Collection<M>
+  total: number
+  perPage: number
+  page: number
+  lastPage: number
+}
+
+export default Pagination
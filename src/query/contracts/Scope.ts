@@ -0,0 +1,5 @@
+import Query from '../Query'
+
+export type Scope = (query: Query, ...args: any[]) => void
+
+export default Scope
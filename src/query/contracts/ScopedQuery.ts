@@ -0,0 +1,12 @@
+import Model from '../../model/Model'
+import Query from '../Query'
+
+/**
+ * The query of the model extended with the methods to apply the local
+ * scopes of the model, so that `User.query().active()` gets typed.
+ */
+export type ScopedQuery<M extends Model, S> = Query<M> & {
+  [K in keyof S]: S[K] extends (query: any, ...args: infer A) => any ? (...args: A) => ScopedQuery<M, S> : never
+}
+
+export default ScopedQuery
@@ -10,6 +10,15 @@ import AfterUpdateHook from './AfterUpdateHook'
 import BeforeDeleteHook from './BeforeDeleteHook'
 import AfterDeleteHook from './AfterDeleteHook'
 import HookableClosure from './HookableClosure'
+import Pagination from './Pagination'
+import CursorPagination from './CursorPagination'
+import Aggregator from './Aggregator'
+import Group from './Group'
+import LiveQueryChanges from './LiveQueryChanges'
+import LiveQueryListener from './LiveQueryListener'
+import Scope from './Scope'
+import GlobalScope from './GlobalScope'
+import ScopedQuery from './ScopedQuery'
 
 export {
   Predicate,
@@ -23,5 +32,14 @@ export {
   AfterUpdateHook,
   BeforeDeleteHook,
   AfterDeleteHook,
-  HookableClosure
+  HookableClosure,
+  Pagination,
+  CursorPagination,
+  Aggregator,
+  Group,
+  LiveQueryChanges,
+  LiveQueryListener,
+  Scope,
+  GlobalScope,
+  ScopedQuery
 }
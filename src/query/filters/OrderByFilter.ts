@@ -1,5 +1,9 @@
-import Utils from '../../support/Utils'
+import Utils, { SortIteratee, Comparer } from '../../support/Utils'
+import Record from '../../data/Record'
 import Collection from '../../data/Collection'
+import * as Options from '../options'
+import Loader from '../loaders/Loader'
+import Projector from '../projectors/Projector'
 import Query from '../Query'
 
 export default class OrderByFilter {
@@ -11,9 +15,107 @@ export default class OrderByFilter {
       return records
     }
 
-    const keys = query.orders.map(order => order.field)
+    const iteratees = query.orders.map(order => this.getIteratee(query, records, order.field))
     const directions = query.orders.map(order => order.direction)
+    const comparers = query.orders.map(order => this.getComparer(order))
 
-    return Utils.orderBy(records, keys, directions)
+    return Utils.orderBy(records, iteratees, directions, comparers)
+  }
+
+  /**
+   * Check if the given order field is a path through the relationships
+   * such as `author.name`.
+   */
+  static isPath (field: string | Options.OrderClosure): boolean {
+    return typeof field === 'string' && field.indexOf('.') !== -1
+  }
+
+  /**
+   * Get the iteratee that resolves the value to sort the records by.
+   */
+  private static getIteratee (query: Query, records: Collection, field: string | Options.OrderClosure): SortIteratee<Record> {
+    if (typeof field === 'function' || !this.isPath(field)) {
+      return field
+    }
+
+    const segments = field.split('.')
+
+    // The records in the store don't hold their relationships, so we'll load
+    // the relationships along the path onto shadow copies of the records and
+    // resolve the values from them.
+    if (Loader.getRelation(query, segments[0]) === null) {
+      return record => this.resolve(record, segments)
+    }
+
+    const relationQuery = query.newQuery().with(segments.slice(0, -1).join('.'))
+
+    const shadows: Collection = records.map(record => Object.create(record, Projector.describeProperties([segments[0]])))
+
+    Loader.eagerLoadRelations(relationQuery, shadows)
+
+    const values = new Map<Record, any>()
+
+    records.forEach((record, index) => {
+      values.set(record, this.resolve(shadows[index], segments))
+    })
+
+    return record => values.get(record)
+  }
+
+  /**
+   * Resolve the value at the given path of the record. The path may only go
+   * through objects, so it resolves to `null` when a segment is missing or
+   * holds a collection.
+   */
+  private static resolve (record: Record, segments: string[]): any {
+    let value: any = record
+
+    for (let i = 0; i < segments.length; i++) {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return null
+      }
+
+      value = value[segments[i]]
+    }
+
+    return value === undefined ? null : value
+  }
+
+  /**
+   * Get the comparer for the given order. It places `null` values at the
+   * position set by the `nulls` option regardless of the direction, and
+   * compares strings by the collation of the `locale` option.
+   */
+  static getComparer (order: Options.Orders): Comparer {
+    const collator = order.locale !== undefined || order.collation !== undefined
+      ? new Intl.Collator(order.locale, order.collation)
+      : null
+
+    const compare: Comparer = (value, other) => {
+      if (collator !== null && typeof value === 'string' && typeof other === 'string') {
+        return collator.compare(value, other)
+      }
+
+      return Utils.compareAscending(value, other)
+    }
+
+    if (order.nulls === undefined) {
+      return compare
+    }
+
+    // The result gets reversed for the descending order, so the position
+    // of the null values has to be reversed up front to stay in place.
+    const position = (order.nulls === 'first' ? -1 : 1) * (order.direction === 'desc' ? -1 : 1)
+
+    return (value, other) => {
+      const isNull = value === null || value === undefined
+      const isOtherNull = other === null || other === undefined
+
+      if (isNull || isOtherNull) {
+        return isNull === isOtherNull ? 0 : (isNull ? position : -position)
+      }
+
+      return compare(value, other)
+    }
   }
 }
@@ -5,11 +5,18 @@ import * as Options from '../options'
 import Query from '../Query'
 
 export default class WhereFilter {
+  /**
+   * The operators that can be passed to the where clause.
+   */
+  static operators: Options.WhereOperator[] = [
+    '=', '!=', '>', '>=', '<', '<=', 'like', 'ilike', 'between', 'in', 'notIn', 'null', 'notNull'
+  ]
+
   /**
    * Filter the given data by registered where clause.
    */
   static filter (query: Query, records: Collection): Collection {
-    if (query.wheres.length === 0) {
+    if (query.wheres.length === 0 && !this.filtersTrashed(query) && Object.keys(query.globalScopes).length === 0) {
       return records
     }
 
@@ -20,16 +27,93 @@ export default class WhereFilter {
    * Checks if given Record matches the registered where clause.
    */
   static check (query: Query, record: Instance): boolean {
-    const whereTypes = Utils.groupBy(query.wheres, where => where.boolean)
+    return this.checkScopes(query, record) && this.checkClauses(query, query.wheres, record)
+  }
+
+  /**
+   * Checks if given Record is in the scope of the query, which is decided by
+   * the global scopes and whether if the record is soft deleted. Unlike
+   * the where clauses, the scopes apply to the lookups by the id too.
+   */
+  static checkScopes (query: Query, record: Instance): boolean {
+    return this.checkTrashed(query, record) && this.checkGlobalScopes(query, record)
+  }
+
+  /**
+   * Checks if given Record matches the where clauses of the global scopes.
+   */
+  static checkGlobalScopes (query: Query, record: Instance): boolean {
+    for (const name in query.globalScopes) {
+      if (!this.checkClauses(query, query.globalScopes[name].wheres, record)) {
+        return false
+      }
+    }
+
+    return true
+  }
+
+  /**
+   * Check if the records should be filtered by whether if they're soft
+   * deleted.
+   */
+  static filtersTrashed (query: Query): boolean {
+    return query.model.softDeletes !== null && query.trashed !== 'with'
+  }
+
+  /**
+   * Checks if given Record should be included by whether if it's soft
+   * deleted.
+   */
+  static checkTrashed (query: Query, record: Instance): boolean {
+    if (!this.filtersTrashed(query)) {
+      return true
+    }
+
+    const trashed = query.model.isTrashed(record)
+
+    return query.trashed === 'only' ? trashed : !trashed
+  }
+
+  /**
+   * Checks if given Record matches the given where clauses. The clauses are
+   * evaluated as chains of "and" conditions separated by "or" conditions,
+   * so "and" takes precedence over "or" as it does in SQL. The boolean of
+   * the very first clause is ignored since there's nothing to join to.
+   */
+  static checkClauses (query: Query, wheres: Options.WhereClause[], record: Instance): boolean {
     const comparator = this.getComparator(query, record)
 
-    let results: boolean[] = []
+    let chain = true
+
+    for (let i = 0; i < wheres.length; i++) {
+      const where = wheres[i]
+
+      if (i > 0 && where.boolean === 'or') {
+        // The preceding "and" chain already matched, so there's no need to
+        // evaluate the rest of the clauses.
+        if (chain) {
+          return true
+        }
+
+        chain = true
+      }
+
+      // Skip the rest of the "and" chain once any of its conditions failed.
+      if (!chain) {
+        continue
+      }
 
-    whereTypes.and && results.push(whereTypes.and.every(comparator))
+      chain = this.isGroup(where) ? this.checkClauses(query, where.wheres, record) : comparator(where)
+    }
 
-    whereTypes.or && results.push(whereTypes.or.some(comparator))
+    return chain
+  }
 
-    return results.indexOf(true) !== -1
+  /**
+   * Check if the given where clause is a nested group of where clauses.
+   */
+  static isGroup (where: Options.WhereClause): where is Options.WhereGroup {
+    return 'wheres' in where
   }
 
   /**
@@ -55,6 +139,11 @@ export default class WhereFilter {
         }))
       }
 
+      // Comparison with the operator such as `>` or `like`.
+      if (where.operator !== undefined) {
+        return this.compare(where.operator, record[where.field], where.value)
+      }
+
       // Function with Record value as argument.
       if (typeof where.value === 'function') {
         return where.value(record[where.field])
@@ -70,6 +159,77 @@ export default class WhereFilter {
     }
   }
 
+  /**
+   * Compare the given record value against the where value by the operator.
+   * Ordering comparisons, `like` and `between` never match against `null`
+   * or `undefined` record values.
+   */
+  static compare (operator: Options.WhereOperator, value: any, target: any): boolean {
+    switch (operator) {
+      case '=':
+        return value === target
+
+      case '!=':
+        return value !== target
+
+      case 'in':
+        return target.indexOf(value) !== -1
+
+      case 'notIn':
+        return target.indexOf(value) === -1
+
+      case 'null':
+        return value === null || value === undefined
+
+      case 'notNull':
+        return value !== null && value !== undefined
+    }
+
+    if (value === null || value === undefined) {
+      return false
+    }
+
+    switch (operator) {
+      case '>':
+        return value > target
+
+      case '>=':
+        return value >= target
+
+      case '<':
+        return value < target
+
+      case '<=':
+        return value <= target
+
+      case 'between':
+        return value >= target[0] && value <= target[1]
+
+      case 'like':
+        return typeof value === 'string' && this.likePattern(target).test(value)
+
+      case 'ilike':
+        return typeof value === 'string' && this.likePattern(target, 'i').test(value)
+
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Convert the given `like` pattern into a regular expression. The `%`
+   * wildcard matches any sequence of characters, and `_` matches any
+   * single character.
+   */
+  static likePattern (pattern: string, flags?: string): RegExp {
+    const source = String(pattern)
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/%/g, '.*')
+      .replace(/_/g, '.')
+
+    return new RegExp(`^${source}$`, flags)
+  }
+
   /**
    * Execute where closure.
    */
@@ -0,0 +1,67 @@
+export default class HashIndex {
+  /**
+   * The ids of the records grouped by the value of the indexed field.
+   */
+  values: Map<any, Set<string>> = new Map()
+
+  /**
+   * The indexed value of each record keyed by its id. It's used to find out
+   * the previous value when a record gets updated or removed.
+   */
+  keys: Map<string, any> = new Map()
+
+  /**
+   * Add the given record to the index. If the record is already indexed,
+   * the previous value gets replaced.
+   */
+  add (id: string, value: any): void {
+    if (this.keys.has(id)) {
+      if (this.keys.get(id) === value) {
+        return
+      }
+
+      this.remove(id)
+    }
+
+    const ids = this.values.get(value)
+
+    ids ? ids.add(id) : this.values.set(value, new Set([id]))
+
+    this.keys.set(id, value)
+  }
+
+  /**
+   * Remove the record with the given id from the index.
+   */
+  remove (id: string): void {
+    if (!this.keys.has(id)) {
+      return
+    }
+
+    const value = this.keys.get(id)
+    const ids = this.values.get(value) as Set<string>
+
+    ids.delete(id)
+
+    if (ids.size === 0) {
+      this.values.delete(value)
+    }
+
+    this.keys.delete(id)
+  }
+
+  /**
+   * Get the ids of the records whose value matches any of the given values.
+   */
+  lookup (values: any[]): Set<string> {
+    const result = new Set<string>()
+
+    values.forEach((value) => {
+      const ids = this.values.get(value)
+
+      ids && ids.forEach(id => result.add(id))
+    })
+
+    return result
+  }
+}
@@ -0,0 +1,323 @@
+import * as Data from '../../data'
+import State from '../../modules/contracts/State'
+import * as Options from '../options'
+import WhereFilter from '../filters/WhereFilter'
+import Query from '../Query'
+import HashIndex from './HashIndex'
+import SortedIndex from './SortedIndex'
+
+export interface Indexes {
+  /**
+   * The data the indexes were built against. It's used to detect whether the
+   * indexes are out of sync with the state.
+   */
+  data: Data.Instances
+
+  /**
+   * The hash index for each indexed field.
+   */
+  hash: { [field: string]: HashIndex }
+
+  /**
+   * The sorted index for each sorted indexed field.
+   */
+  sorted: { [field: string]: SortedIndex }
+}
+
+export default class Indexer {
+  /**
+   * The indexes for each entity state.
+   */
+  static indexes: WeakMap<State, Indexes> = new WeakMap()
+
+  /**
+   * The number of the changed records at once above which the sorted indexes
+   * get rebuilt instead of updating them record by record.
+   */
+  static sortedUpdateThreshold: number = 100
+
+  /**
+   * Get the ids of the records that may match the where clauses of the given
+   * query by looking them up in the indexes. It returns `null` when none of
+   * the where clauses can be served by the indexes. The range conditions on
+   * the `except` field are left out, which is used when the records are
+   * going to be streamed from the sorted index of the field.
+   */
+  static lookup (query: Query, except: string | null = null): Set<string> | null {
+    // When any top level where clause is joined by "or", the other clauses
+    // can't be used to narrow down the records.
+    if (query.cancelIdFilter || query.wheres.length === 0) {
+      return null
+    }
+
+    const model = query.getBase(query.entity)
+    const hashFields = model.getIndexedFields()
+    const sortedFields = model.getSortedIndexedFields().filter(field => field !== except)
+
+    let ids: Set<string> | null = null
+
+    const narrow = (matches: Set<string>) => {
+      ids = ids === null ? matches : this.intersect(ids, matches)
+    }
+
+    hashFields.length > 0 && query.wheres.forEach((where) => {
+      if (WhereFilter.isGroup(where) || typeof where.field !== 'string' || !hashFields.includes(where.field)) {
+        return
+      }
+
+      const values = this.getLookupValues(where)
+
+      values !== null && narrow(this.getHashIndex(query.state, where.field).lookup(values))
+    })
+
+    sortedFields.forEach((field) => {
+      if (!query.wheres.some(where => !WhereFilter.isGroup(where) && where.field === field)) {
+        return
+      }
+
+      const index = this.getSortedIndex(query, field)
+
+      if (index === null) {
+        return
+      }
+
+      const [from, to] = this.range(query, field, index)
+
+      if (from === 0 && to === index.entries.length) {
+        return
+      }
+
+      const matches = new Set<string>()
+
+      index.each(from, to, 'asc', (id) => { matches.add(id) })
+
+      narrow(matches)
+    })
+
+    return ids
+  }
+
+  /**
+   * Get the sorted index for the given field if it's declared and can be used
+   * to sort and to filter the records.
+   */
+  static getSortedIndex (query: Query, field: string): SortedIndex | null {
+    if (!query.getBase(query.entity).getSortedIndexedFields().includes(field)) {
+      return null
+    }
+
+    const index = this.get(query.state).sorted[field] || this.buildSortedIndex(query.state, field)
+
+    return index.getValueType() === null ? null : index
+  }
+
+  /**
+   * Get the range of the positions in the given sorted index that satisfies
+   * the range where clauses on the field.
+   */
+  static range (query: Query, field: string, index: SortedIndex): [number, number] {
+    let from = 0
+    let to = index.entries.length
+
+    if (query.cancelIdFilter) {
+      return [from, to]
+    }
+
+    const type = index.getValueType()
+
+    query.wheres.forEach((where) => {
+      if (WhereFilter.isGroup(where) || where.field !== field) {
+        return
+      }
+
+      const operator = where.operator === undefined && !Array.isArray(where.value) ? '=' : where.operator
+      const values = operator === 'between' ? where.value : [where.value]
+
+      // Values of the other type would be coerced on comparison, which the
+      // index can't serve.
+      if (!values.every((value: any) => SortedIndex.getType(value) === type)) {
+        return
+      }
+
+      switch (operator) {
+        case '=':
+          from = Math.max(from, index.from(where.value, true))
+          to = Math.min(to, index.to(where.value, true))
+          break
+
+        case '>':
+          from = Math.max(from, index.from(where.value, false))
+          break
+
+        case '>=':
+          from = Math.max(from, index.from(where.value, true))
+          break
+
+        case '<':
+          to = Math.min(to, index.to(where.value, false))
+          break
+
+        case '<=':
+          to = Math.min(to, index.to(where.value, true))
+          break
+
+        case 'between':
+          from = Math.max(from, index.from(where.value[0], true))
+          to = Math.min(to, index.to(where.value[1], true))
+          break
+      }
+    })
+
+    return [from, Math.max(from, to)]
+  }
+
+  /**
+   * Order the given ids the same way `Object.keys` orders the keys of the
+   * state data, so the index doesn't change the order of the retrieved
+   * records. Integer like ids come first in ascending order, followed by
+   * the rest in the order they were indexed.
+   */
+  static order (ids: Set<string>): string[] {
+    const integers: string[] = []
+    const others: string[] = []
+
+    ids.forEach((id) => {
+      SortedIndex.isIntegerKey(id) ? integers.push(id) : others.push(id)
+    })
+
+    return integers.sort((a, b) => Number(a) - Number(b)).concat(others)
+  }
+
+  /**
+   * Get the values to look up from the given where clause. Only plain
+   * equality and `in` conditions can be served by the hash index.
+   */
+  static getLookupValues (where: Options.Where): any[] | null {
+    if (where.operator === '=') {
+      return [where.value]
+    }
+
+    if (where.operator === 'in') {
+      return where.value
+    }
+
+    if (where.operator !== undefined || typeof where.value === 'function') {
+      return null
+    }
+
+    return Array.isArray(where.value) ? where.value : [where.value]
+  }
+
+  /**
+   * Get the indexes for the given state. When the indexes are out of sync
+   * with the state, they get dropped to be built again.
+   */
+  static get (state: State): Indexes {
+    const indexes = this.indexes.get(state)
+
+    if (indexes && indexes.data === state.data) {
+      return indexes
+    }
+
+    const fresh = { data: state.data, hash: {}, sorted: {} }
+
+    this.indexes.set(state, fresh)
+
+    return fresh
+  }
+
+  /**
+   * Get the hash index for the given field, building it if it doesn't
+   * exist yet.
+   */
+  static getHashIndex (state: State, field: string): HashIndex {
+    const indexes = this.get(state)
+
+    if (indexes.hash[field]) {
+      return indexes.hash[field]
+    }
+
+    const index = new HashIndex()
+
+    Object.keys(state.data).forEach((id) => {
+      index.add(id, state.data[id][field])
+    })
+
+    return indexes.hash[field] = index
+  }
+
+  /**
+   * Build the sorted index for the given field.
+   */
+  static buildSortedIndex (state: State, field: string): SortedIndex {
+    const ids = Object.keys(state.data)
+
+    const index = SortedIndex.build(ids, ids.map(id => state.data[id][field]))
+
+    return this.get(state).sorted[field] = index
+  }
+
+  /**
+   * Update the indexes for the given state after its data was replaced with
+   * a new object. `previous` is the data object before the replacement,
+   * `records` are the records that were added or updated and `removed` are
+   * the ids of the records that were removed. The indexes get dropped when
+   * they were not in sync with the previous data, to be rebuilt on the next
+   * lookup.
+   */
+  static update (state: State, previous: Data.Instances, records: Data.Instances, removed: string[] = []): void {
+    const indexes = this.indexes.get(state)
+
+    if (!indexes) {
+      return
+    }
+
+    if (indexes.data !== previous) {
+      this.flush(state)
+
+      return
+    }
+
+    const ids = Object.keys(records)
+
+    // Inserting into a sorted index one by one gets slow for many records,
+    // so let them be rebuilt on the next lookup instead.
+    if (ids.length + removed.length > this.sortedUpdateThreshold) {
+      indexes.sorted = {}
+    }
+
+    removed.forEach((id) => {
+      Object.keys(indexes.hash).forEach(field => indexes.hash[field].remove(id))
+      Object.keys(indexes.sorted).forEach(field => indexes.sorted[field].remove(id))
+    })
+
+    ids.forEach((id) => {
+      Object.keys(indexes.hash).forEach(field => indexes.hash[field].add(id, records[id][field]))
+      Object.keys(indexes.sorted).forEach(field => indexes.sorted[field].add(id, records[id][field]))
+    })
+
+    indexes.data = state.data
+  }
+
+  /**
+   * Drop the indexes for the given state.
+   */
+  static flush (state: State): void {
+    this.indexes.delete(state)
+  }
+
+  /**
+   * Get the ids that exist in both of the given sets.
+   */
+  private static intersect (a: Set<string>, b: Set<string>): Set<string> {
+    const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a]
+
+    const result = new Set<string>()
+
+    smaller.forEach((id) => {
+      larger.has(id) && result.add(id)
+    })
+
+    return result
+  }
+}
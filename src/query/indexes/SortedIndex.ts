@@ -0,0 +1,234 @@
+import * as Options from '../options'
+
+export interface SortedEntry {
+  id: string
+  value: any
+  rank: number
+}
+
+export type ValueType = 'number' | 'string' | 'other'
+
+export default class SortedIndex {
+  /**
+   * The order of the value types in the index. Values of different types
+   * never get compared to each other so that the entries are always in
+   * a consistent order.
+   */
+  static types: ValueType[] = ['number', 'string', 'other']
+
+  /**
+   * The entries sorted by their value. Entries with the same value are
+   * sorted by their rank.
+   */
+  entries: SortedEntry[] = []
+
+  /**
+   * The entry of each record keyed by its id.
+   */
+  keys: Map<string, SortedEntry> = new Map()
+
+  /**
+   * The number of the indexed values for each value type.
+   */
+  counts: { [type: string]: number } = { number: 0, string: 0, other: 0 }
+
+  /**
+   * The last sequence used to rank the non integer ids.
+   */
+  sequence: number = 0
+
+  /**
+   * Create a new sorted index from the given values keyed by the record id.
+   * The ids are expected to be in the order of the keys of the state data.
+   */
+  static build (ids: string[], values: any[]): SortedIndex {
+    const index = new this()
+
+    index.entries = ids.map((id, i) => {
+      const entry = { id, value: values[i], rank: index.rank(id) }
+
+      index.keys.set(id, entry)
+      index.counts[this.getType(entry.value)]++
+
+      return entry
+    })
+
+    index.entries.sort((a, b) => this.compare(a.value, a.rank, b.value, b.rank))
+
+    return index
+  }
+
+  /**
+   * Get the type of the given value.
+   */
+  static getType (value: any): ValueType {
+    if (typeof value === 'number' && !isNaN(value)) {
+      return 'number'
+    }
+
+    return typeof value === 'string' ? 'string' : 'other'
+  }
+
+  /**
+   * Check if the given key is treated as an array index by `Object.keys`.
+   */
+  static isIntegerKey (key: string): boolean {
+    return /^(0|[1-9]\d*)$/.test(key) && Number(key) < 4294967295
+  }
+
+  /**
+   * Compare the given values and ranks. Values are compared by their type
+   * at first, and entries with an equal value are compared by their rank.
+   */
+  static compare (value: any, rank: number, otherValue: any, otherRank: number): number {
+    const type = this.types.indexOf(this.getType(value))
+    const otherType = this.types.indexOf(this.getType(otherValue))
+
+    if (type !== otherType) {
+      return type - otherType
+    }
+
+    if (type !== 2 && value !== otherValue) {
+      return value > otherValue ? 1 : -1
+    }
+
+    return rank - otherRank
+  }
+
+  /**
+   * Get the type of the values the index holds. It returns `null` when the
+   * index holds values of mixed types or values that can't be sorted, in
+   * which case the index can't be used to sort or to filter the records.
+   */
+  getValueType (): 'number' | 'string' | null {
+    if (this.counts.other > 0 || (this.counts.number > 0 && this.counts.string > 0)) {
+      return null
+    }
+
+    return this.counts.string > 0 ? 'string' : 'number'
+  }
+
+  /**
+   * Add the given record to the index. If the record is already indexed,
+   * the previous value gets replaced.
+   */
+  add (id: string, value: any): void {
+    const current = this.keys.get(id)
+
+    if (current && current.value === value) {
+      return
+    }
+
+    // Updated records keep their rank since the keys of the state data keep
+    // their order as well.
+    const entry = { id, value, rank: current ? current.rank : this.rank(id) }
+
+    current && this.remove(id)
+
+    this.entries.splice(this.position(value, entry.rank), 0, entry)
+    this.keys.set(id, entry)
+    this.counts[SortedIndex.getType(value)]++
+  }
+
+  /**
+   * Remove the record with the given id from the index.
+   */
+  remove (id: string): void {
+    const entry = this.keys.get(id)
+
+    if (!entry) {
+      return
+    }
+
+    this.entries.splice(this.position(entry.value, entry.rank), 1)
+    this.keys.delete(id)
+    this.counts[SortedIndex.getType(entry.value)]--
+  }
+
+  /**
+   * Get the position of the first entry that is not less than the given
+   * value and rank.
+   */
+  position (value: any, rank: number): number {
+    let low = 0
+    let high = this.entries.length
+
+    while (low < high) {
+      const middle = (low + high) >>> 1
+      const entry = this.entries[middle]
+
+      if (SortedIndex.compare(entry.value, entry.rank, value, rank) < 0) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+
+    return low
+  }
+
+  /**
+   * Get the position of the first entry whose value is greater than, or
+   * equal to if `inclusive` is true, the given value.
+   */
+  from (value: any, inclusive: boolean): number {
+    return this.position(value, inclusive ? -Infinity : Infinity)
+  }
+
+  /**
+   * Get the position following the last entry whose value is less than,
+   * or equal to if `inclusive` is true, the given value.
+   */
+  to (value: any, inclusive: boolean): number {
+    return this.position(value, inclusive ? Infinity : -Infinity)
+  }
+
+  /**
+   * Iterate the ids of the entries between the given positions in the given
+   * direction. Entries with an equal value are always iterated in order of
+   * their rank, so the iteration matches the stable sort of the records.
+   * The iteration stops when the callback returns `false`.
+   */
+  each (from: number, to: number, direction: Options.OrderDirection, callback: (id: string) => boolean | void): void {
+    if (direction !== 'desc') {
+      for (let i = from; i < to; i++) {
+        if (callback(this.entries[i].id) === false) {
+          return
+        }
+      }
+
+      return
+    }
+
+    let end = to - 1
+
+    while (end >= from) {
+      let start = end
+
+      while (start > from && this.entries[start - 1].value === this.entries[end].value) {
+        start--
+      }
+
+      for (let i = start; i <= end; i++) {
+        if (callback(this.entries[i].id) === false) {
+          return
+        }
+      }
+
+      end = start - 1
+    }
+  }
+
+  /**
+   * Get the rank for the given id. Integer like ids are ranked by their
+   * value, and the rest by the order they were added, the same way as
+   * `Object.keys` orders the keys of the state data.
+   */
+  private rank (id: string): number {
+    if (SortedIndex.isIntegerKey(id)) {
+      return Number(id)
+    }
+
+    return 4294967295 + ++this.sequence
+  }
+}
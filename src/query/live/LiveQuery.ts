@@ -0,0 +1,163 @@
+import * as Data from '../../data'
+import Model from '../../model/Model'
+import State from '../../modules/contracts/State'
+import * as Contracts from '../contracts'
+import Query from '../Query'
+
+export default class LiveQuery<M extends Model = Model> {
+  /**
+   * The query to keep the result of.
+   */
+  query: Query
+
+  /**
+   * The latest result of the query.
+   */
+  result: Data.Collection<M> = []
+
+  /**
+   * The records added, removed and changed by the latest refresh.
+   */
+  changes: Contracts.LiveQueryChanges<M> = { added: [], removed: [], changed: [] }
+
+  /**
+   * Whether if the live query is still watching the store.
+   */
+  live: boolean = true
+
+  /**
+   * The data of each entity state the result was built from.
+   */
+  dependencies: Map<State, Data.Instances> = new Map()
+
+  /**
+   * The serialized records of the latest result keyed by their ids, used
+   * to find the records that were changed.
+   */
+  snapshots: Map<string | number, string> = new Map()
+
+  /**
+   * The listeners to be called when the result changes.
+   */
+  listeners: Contracts.LiveQueryListener[] = []
+
+  /**
+   * The function that stops watching the store mutations.
+   */
+  unwatch: () => void
+
+  /**
+   * Create a new live query instance and run the query.
+   */
+  constructor (query: Query) {
+    this.query = query
+
+    this.run()
+
+    const database = query.database()
+
+    this.unwatch = database.store.subscribe((mutation) => {
+      // The `$mutate` mutation may change the records in place, so the data
+      // of the state doesn't tell whether if it was changed.
+      const mutated = mutation.type === `${database.namespace}/$mutate`
+        ? query.rootState[mutation.payload.entity]
+        : null
+
+      this.isStale(mutated) && this.refresh()
+    })
+  }
+
+  /**
+   * Register a listener to be called with the result and the changes each
+   * time the result changes. It returns a function to remove the listener.
+   */
+  subscribe (listener: Contracts.LiveQueryListener<M>): () => void {
+    const registered = listener as Contracts.LiveQueryListener
+
+    this.listeners.push(registered)
+
+    return () => {
+      const index = this.listeners.indexOf(registered)
+
+      index !== -1 && this.listeners.splice(index, 1)
+    }
+  }
+
+  /**
+   * Re-run the query and notify the listeners when the result changed.
+   */
+  refresh (): void {
+    this.run()
+
+    const { added, removed, changed } = this.changes
+
+    if (added.length === 0 && removed.length === 0 && changed.length === 0) {
+      return
+    }
+
+    this.listeners.slice().forEach((listener) => { listener(this.result, this.changes as Contracts.LiveQueryChanges) })
+  }
+
+  /**
+   * Stop watching the store. The result won't be updated anymore.
+   */
+  stop (): void {
+    this.live && this.unwatch()
+
+    this.live = false
+    this.listeners = []
+  }
+
+  /**
+   * Run the query, tracking the entities it depends on, and compare the
+   * result against the previous one. Running the query adds the ids that
+   * match its `has` conditions as a where clause, so each run goes through
+   * a fresh copy of the query to match them against the current records.
+   */
+  private run (): void {
+    const { result, dependencies } = this.query.database().cache.trace(() => this.query.copy().get() as Data.Collection<M>)
+
+    const previous = this.result
+    const snapshots: Map<string | number, string> = new Map()
+
+    result.forEach((record) => {
+      snapshots.set(this.getId(record), JSON.stringify(record.$toJson()))
+    })
+
+    const ids = new Set(previous.map(record => this.getId(record)))
+
+    this.changes = {
+      added: result.filter(record => !ids.has(this.getId(record))),
+      removed: previous.filter(record => !snapshots.has(this.getId(record))),
+      changed: result.filter((record) => {
+        const id = this.getId(record)
+
+        return ids.has(id) && this.snapshots.get(id) !== snapshots.get(id)
+      })
+    }
+
+    this.result = result
+    this.dependencies = dependencies
+    this.snapshots = snapshots
+  }
+
+  /**
+   * Check if any of the entity states the result depends on was changed.
+   */
+  private isStale (mutated: State | null): boolean {
+    let stale = false
+
+    this.dependencies.forEach((data, state) => {
+      stale = stale || state === mutated || state.data !== data
+    })
+
+    return stale
+  }
+
+  /**
+   * Get the id of the given record.
+   */
+  private getId (record: M): string | number {
+    return record.$id as string | number
+  }
+}
@@ -1,7 +1,10 @@
 import Collection from '../../data/Collection'
+import Model from '../../model/Model'
 import Relation from '../../attributes/relations/Relation'
 import Constraint from '../contracts/RelationshipConstraint'
+import Aggregator from '../contracts/Aggregator'
 import Query from '../Query'
+import Projector from '../projectors/Projector'
 
 export default class Loader {
   /**
@@ -46,6 +49,14 @@ export default class Loader {
     })
   }
 
+  /**
+   * Set the aggregate of the relationship that should be eager loaded with
+   * the query as the attribute of the given name.
+   */
+  static withAggregate (query: Query, relation: string, name: string, aggregator: Aggregator, constraint: Constraint | null): void {
+    query.relationAggregates.push({ relation, name, aggregator, constraint })
+  }
+
   /**
    * Set eager load relation and constraint.
    */
@@ -109,26 +120,161 @@ export default class Loader {
    * Eager load the relationships for the given collection.
    */
   static eagerLoadRelations (query: Query, collection: Collection): void {
-    const fields = query.model.getFields()
-
     for (const name in query.load) {
-      const constraints = query.load[name]
-      let relation = fields[name]
+      const relation = this.getRelation(query, name)
 
-      if (relation instanceof Relation) {
-        relation.load(query, collection, name, constraints)
+      if (relation === null) {
         continue
       }
 
-      // If no relation was found on the query, it might be run on the
-      // base entity of a hierarchy. In this case, we try looking up
-      // the relation on the derived entities
-      if (query.model.hasTypes()) {
-        const candidateRelation = query.model.findRelationInSubTypes(name)
-        if (candidateRelation !== null) {
-          candidateRelation.load(query, collection, name, constraints)
+      // The related records have to keep all of their fields until they're
+      // matched to their parents by the keys, so the projection set by the
+      // constraints gets applied after the relationship is loaded.
+      const projected: { query: Query, projection: string[] }[] = []
+
+      const deferProjection = (relatedQuery: Query) => {
+        if (relatedQuery.projection !== null) {
+          projected.push({ query: relatedQuery, projection: relatedQuery.projection })
+
+          relatedQuery.projection = null
         }
       }
+
+      relation.load(query, collection, name, [...query.load[name], deferProjection])
+
+      projected.length > 0 && Projector.projectRelation(projected[0].query, projected[0].projection, collection, name)
     }
   }
+
+  /**
+   * Eager load the relationship aggregates for the given collection.
+   */
+  static eagerLoadAggregates (query: Query, collection: Collection): void {
+    query.relationAggregates.forEach((aggregate) => {
+      const relation = this.getRelation(query, aggregate.relation)
+
+      if (relation === null) {
+        return
+      }
+
+      const constraints = aggregate.constraint ? [aggregate.constraint] : []
+
+      const results = relation.aggregate(query, collection, aggregate.relation, constraints, aggregate.aggregator)
+
+      collection.forEach((model, index) => {
+        model[aggregate.name] = results[index]
+      })
+    })
+  }
+
+  /**
+   * Load the given relationships onto the models that were already
+   * retrieved. The models are copied before loading, since they may be the
+   * ones held by the store.
+   */
+  static load (query: Query, collection: Collection, name: string | string[], constraint: Constraint | null): Collection {
+    const models = this.copy(collection)
+
+    this.with(query, name, constraint)
+
+    this.eagerLoadRelations(query, models)
+
+    return models
+  }
+
+  /**
+   * Load the given relationships onto the models that were already
+   * retrieved, skipping the models that already have them loaded. For the
+   * nested relationships, each level is checked separately.
+   */
+  static loadMissing (query: Query, collection: Collection, name: string | string[]): Collection {
+    const models = this.copy(collection)
+
+    const names = Array.isArray(name) ? name : [name]
+
+    names.forEach((path) => {
+      const [relation, ...children] = path.split('.')
+
+      relation.split('|').forEach((relationName) => {
+        this.loadMissingPath(query, models, relationName, children)
+      })
+    })
+
+    return models
+  }
+
+  /**
+   * Load the relationship of the given name, and its nested relationships,
+   * onto the models that don't have it loaded yet.
+   */
+  private static loadMissingPath (query: Query, collection: Collection, name: string, children: string[]): void {
+    const missing = collection.filter(model => !this.isLoaded(model[name]))
+
+    if (missing.length > 0) {
+      this.eagerLoadRelations(query.newQuery().with([name, ...children].join('.')), missing)
+    }
+
+    if (children.length === 0) {
+      return
+    }
+
+    // The models that were missing the relationship got the nested ones
+    // loaded along with it, so only the others have to be looked into.
+    const relateds = new Map<typeof Model, Collection>()
+
+    collection.forEach((model) => {
+      if (missing.indexOf(model) !== -1) {
+        return
+      }
+
+      const related: Model | Collection | null = model[name]
+
+      const models = Array.isArray(related) ? related : (related ? [related] : [])
+
+      models.forEach((relatedModel) => {
+        const relatedClass = relatedModel.$self()
+
+        relateds.set(relatedClass, [...(relateds.get(relatedClass) || []), relatedModel])
+      })
+    })
+
+    const [child, ...rest] = children
+
+    relateds.forEach((models, model) => {
+      child.split('|').forEach((childName) => {
+        this.loadMissingPath(model.query(), models, childName, rest)
+      })
+    })
+  }
+
+  /**
+   * Check if the given value of a relationship is loaded. Since an empty
+   * relationship can't be told apart from the one not loaded, only the
+   * ones holding any record are treated as loaded.
+   */
+  private static isLoaded (value: any): boolean {
+    return Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined
+  }
+
+  /**
+   * Create copies of the given models.
+   */
+  private static copy (collection: Collection): Collection {
+    return collection.map(model => new (model.$self())(model))
+  }
+
+  /**
+   * Get the relation of the given name. If no relation was found on the
+   * query, it might be run on the base entity of a hierarchy. In this case,
+   * we try looking up the relation on the derived entities.
+   */
+  static getRelation (query: Query, name: string): Relation | null {
+    const relation = query.model.getFields()[name]
+
+    if (relation instanceof Relation) {
+      return relation
+    }
+
+    return query.model.hasTypes() ? query.model.findRelationInSubTypes(name) : null
+  }
 }
@@ -0,0 +1,7 @@
+import Aggregator from '../contracts/Aggregator'
+
+export interface Aggregates {
+  [name: string]: Aggregator
+}
+
+export default Aggregates
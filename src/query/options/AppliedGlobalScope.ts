@@ -0,0 +1,9 @@
+import WhereClause from './WhereClause'
+import Orders from './Orders'
+
+export interface AppliedGlobalScope {
+  wheres: WhereClause[]
+  orders: Orders[]
+}
+
+export default AppliedGlobalScope
@@ -0,0 +1,8 @@
+import Record from '../../data/Record'
+
+export interface Cursor {
+  after?: Record | null
+  perPage: number
+}
+
+export default Cursor
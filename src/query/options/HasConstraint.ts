@@ -1,5 +1,5 @@
 import Query from '../Query'
 
-export type Constraint = (query: Query) => boolean
+export type Constraint = (query: Query) => void
 
 export default Constraint
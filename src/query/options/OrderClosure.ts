@@ -0,0 +1,5 @@
+import Record from '../../data/Record'
+
+export type OrderClosure = (record: Record) => any
+
+export default OrderClosure
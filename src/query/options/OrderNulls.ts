@@ -0,0 +1,3 @@
+export type OrderNulls = 'first' | 'last'
+
+export default OrderNulls
@@ -0,0 +1,9 @@
+import OrderNulls from './OrderNulls'
+
+export interface OrderOptions {
+  nulls?: OrderNulls
+  locale?: string
+  collation?: Intl.CollatorOptions
+}
+
+export default OrderOptions
@@ -1,7 +1,9 @@
 import OrderDirection from './OrderDirection'
+import OrderClosure from './OrderClosure'
+import OrderOptions from './OrderOptions'
 
-export interface Orders {
-  field: string
+export interface Orders extends OrderOptions {
+  field: string | OrderClosure
   direction: OrderDirection
 }
 
@@ -0,0 +1,6 @@
+export interface Paginate {
+  perPage: number
+  page?: number
+}
+
+export default Paginate
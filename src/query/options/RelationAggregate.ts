@@ -0,0 +1,11 @@
+import Aggregator from '../contracts/Aggregator'
+import Constraint from './Constraint'
+
+export interface RelationAggregate {
+  relation: string
+  name: string
+  aggregator: Aggregator
+  constraint: Constraint | null
+}
+
+export default RelationAggregate
@@ -0,0 +1,3 @@
+export type Trashed = 'without' | 'with' | 'only'
+
+export default Trashed
@@ -1,11 +1,13 @@
 import WhereBoolean from './WhereBoolean'
+import WhereOperator from './WhereOperator'
 import WherePrimaryClosure from './WherePrimaryClosure'
 import WhereSecondaryClosure from './WhereSecondaryClosure'
 
 export interface Where {
   field: string | number | WherePrimaryClosure
-  value: string | number | WhereSecondaryClosure
+  value: any | WhereSecondaryClosure
   boolean: WhereBoolean
+  operator?: WhereOperator
 }
 
 export default Where
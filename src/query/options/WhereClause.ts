@@ -0,0 +1,6 @@
+import Where from './Where'
+import WhereGroup from './WhereGroup'
+
+export type WhereClause = Where | WhereGroup
+
+export default WhereClause
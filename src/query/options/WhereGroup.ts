@@ -0,0 +1,9 @@
+import WhereBoolean from './WhereBoolean'
+import WhereClause from './WhereClause'
+
+export interface WhereGroup {
+  wheres: WhereClause[]
+  boolean: WhereBoolean
+}
+
+export default WhereGroup
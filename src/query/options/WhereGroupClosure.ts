@@ -0,0 +1,5 @@
+import Query from '../Query'
+
+export type WhereGroupClosure = (query: Query) => void
+
+export default WhereGroupClosure
@@ -0,0 +1,16 @@
+export type WhereOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'like'
+  | 'ilike'
+  | 'between'
+  | 'in'
+  | 'notIn'
+  | 'null'
+  | 'notNull'
+
+export default WhereOperator
@@ -1,23 +1,49 @@
 import Where from './Where'
 import WhereBoolean from './WhereBoolean'
+import WhereOperator from './WhereOperator'
+import WhereGroup from './WhereGroup'
+import WhereGroupClosure from './WhereGroupClosure'
+import WhereClause from './WhereClause'
 import WherePrimaryClosure from './WherePrimaryClosure'
 import WhereSecondaryClosure from './WhereSecondaryClosure'
 import Has from './Has'
 import HasConstraint from './HasConstraint'
 import Orders from './Orders'
 import OrderDirection from './OrderDirection'
+import OrderClosure from './OrderClosure'
+import OrderNulls from './OrderNulls'
+import OrderOptions from './OrderOptions'
 import Constraint from './Constraint'
 import Load from './Load'
+import Paginate from './Paginate'
+import Cursor from './Cursor'
+import Aggregates from './Aggregates'
+import RelationAggregate from './RelationAggregate'
+import Trashed from './Trashed'
+import AppliedGlobalScope from './AppliedGlobalScope'
 
 export {
   Where,
   WhereBoolean,
+  WhereOperator,
+  WhereGroup,
+  WhereGroupClosure,
+  WhereClause,
   WherePrimaryClosure,
   WhereSecondaryClosure,
   Has,
   HasConstraint,
   Orders,
   OrderDirection,
+  OrderClosure,
+  OrderNulls,
+  OrderOptions,
   Constraint,
-  Load
+  Load,
+  Paginate,
+  Cursor,
+  Aggregates,
+  RelationAggregate,
+  Trashed,
+  AppliedGlobalScope
 }
@@ -0,0 +1,141 @@
+import { Comparer } from '../../support/Utils'
+import Record from '../../data/Record'
+import Collection from '../../data/Collection'
+import * as Contracts from '../contracts'
+import * as Options from '../options'
+import OrderByFilter from '../filters/OrderByFilter'
+import Query from '../Query'
+
+export default class Paginator {
+  /**
+   * Get the records of the given page along with the total number of the
+   * records and the number of the last page.
+   */
+  static paginate (query: Query, options: Options.Paginate): Contracts.Pagination {
+    const { perPage, page = 1 } = options
+
+    this.validate('perPage', perPage)
+    this.validate('page', page)
+
+    // The pagination runs on a copy of the query, so that the offset and the
+    // limit of the query are left as they are.
+    const pageQuery = query.copy().offset((page - 1) * perPage).limit(perPage)
+
+    const records = pageQuery.selectAll()
+    const total = records.length
+
+    return {
+      data: pageQuery.collect(pageQuery.limitRecords(records)),
+      total,
+      perPage,
+      page,
+      lastPage: Math.max(1, Math.ceil(total / perPage))
+    }
+  }
+
+  /**
+   * Get the records that come after the given cursor. The records are sorted
+   * by the orders of the query followed by the primary key, so the position
+   * of the cursor doesn't shift when records are inserted or deleted
+   * between page loads.
+   */
+  static cursor (query: Query, options: Options.Cursor): Contracts.CursorPagination {
+    const { after = null, perPage } = options
+
+    this.validate('perPage', perPage)
+
+    const keys = this.getKeys(query)
+
+    const pageQuery = query.copy()
+
+    pageQuery.orders = keys
+
+    const records = pageQuery.selectAll()
+
+    const start = after === null ? 0 : this.findStart(records, keys, after)
+
+    pageQuery.offset(start).limit(perPage)
+
+    const next = start + perPage < records.length ? this.getCursor(records[start + perPage - 1], keys) : null
+
+    return { data: pageQuery.collect(pageQuery.limitRecords(records)), next }
+  }
+
+  /**
+   * Get the orders of the query followed by the primary keys that are not
+   * ordered yet, so that every record has a unique position.
+   */
+  private static getKeys (query: Query): Options.Orders[] {
+    if (query.orders.some(order => typeof order.field !== 'string' || OrderByFilter.isPath(order.field))) {
+      throw new Error('The cursor pagination can only be ordered by the fields of the model.')
+    }
+
+    const primaryKey = query.model.primaryKey
+    const primaryKeys = Array.isArray(primaryKey) ? primaryKey : [primaryKey]
+
+    return primaryKeys.reduce((keys, key) => {
+      keys.some(order => order.field === key) || keys.push({ field: key, direction: 'asc' })
+
+      return keys
+    }, query.orders.slice())
+  }
+
+  /**
+   * Get the position of the first record that comes after the given cursor.
+   * The records are sorted by the keys, so it's found by binary search.
+   */
+  private static findStart (records: Collection, keys: Options.Orders[], after: Record): number {
+    const comparers = keys.map(key => OrderByFilter.getComparer(key))
+
+    let low = 0
+    let high = records.length
+
+    while (low < high) {
+      const middle = (low + high) >>> 1
+
+      if (this.compare(records[middle], after, keys, comparers) > 0) {
+        high = middle
+      } else {
+        low = middle + 1
+      }
+    }
+
+    return low
+  }
+
+  /**
+   * Compare the given record against the cursor by the keys, with the same
+   * comparers the records are sorted with.
+   */
+  private static compare (record: Record, cursor: Record, keys: Options.Orders[], comparers: Comparer[]): number {
+    for (let i = 0; i < keys.length; i++) {
+      const result = comparers[i](record[keys[i].field as string], cursor[keys[i].field as string])
+
+      if (result !== 0) {
+        return keys[i].direction === 'desc' ? -result : result
+      }
+    }
+
+    return 0
+  }
+
+  /**
+   * Create the cursor pointing to the given record.
+   */
+  private static getCursor (record: Record, keys: Options.Orders[]): Record {
+    return keys.reduce<Record>((cursor, key) => {
+      cursor[key.field as string] = record[key.field as string]
+
+      return cursor
+    }, {})
+  }
+
+  /**
+   * Validate that the given pagination option is a positive integer.
+   */
+  private static validate (name: string, value: number): void {
+    if (Math.floor(value) !== value || value < 1) {
+      throw new Error(`The \`${name}\` option must be a positive integer.`)
+    }
+  }
+}
@@ -4,6 +4,7 @@ import Query from '../Query'
 import Normalizer from './Normalizer'
 import PivotCreator from './PivotCreator'
 import Incrementer from './Incrementer'
+import UidGenerator from './UidGenerator'
 import Attacher from './Attacher'
 import IdFixer from './IdFixer'
 
@@ -15,8 +16,10 @@ export default class Processor {
     // First, let's normalize the data.
     let data = Normalizer.process(query, record)
 
-    // Next, increment any field that defined with `increment` attribute.
+    // Next, increment any field that defined with `increment` attribute, and
+    // generate ids for any field that defined with `uid` attribute.
     data = Incrementer.process(query, data)
+    data = UidGenerator.process(query, data)
 
     // Then, attach any missing foreign keys. For example, if a User has many
     // Post nested but without foreign key such as `user_id`, we can attach
@@ -28,14 +31,15 @@ export default class Processor {
     data = PivotCreator.process(query, data)
 
     // There might be new pivot entities now which weren't there before, and
-    // it might contain increment field so we must increment those filed
-    // again here.
+    // it might contain increment or uid field so we must process those
+    // fields again here.
     //
     // Improvements: This double incrementing process can be improved. Since
     // currently, we're looping whole records twice. If we could remember the
     // entities which were already incremented at an earlier stage, we could
     // only process the newly created entities.
     data = Incrementer.process(query, data)
+    data = UidGenerator.process(query, data)
 
     // Finally, let's fix key id for the entities since the id value might
     // have changed due to the incrementing process.
@@ -0,0 +1,67 @@
+import Utils from '../../support/Utils'
+import Record from '../../data/Record'
+import Records from '../../data/Records'
+import NormalizedData from '../../data/NormalizedData'
+import Query from '../../query/Query'
+
+export default class UidGenerator {
+  /**
+   * Generate the ids of all fields that have uid attribute.
+   */
+  static process (query: Query, data: NormalizedData): NormalizedData {
+    return Utils.mapValues(data, (records, entity) => {
+      const newQuery = query.newQuery(entity)
+
+      // If the entity doesn't have uid attribute, do nothing and just
+      // return immediately.
+      if (!newQuery.model.hasUidFields()) {
+        return records
+      }
+
+      this.processRecords(records, newQuery)
+
+      return records
+    })
+  }
+
+  /**
+   * Process all records and generate the ids for the uid fields that
+   * don't have a value yet.
+   */
+  private static processRecords (records: Records, query: Query): void {
+    const fields = query.model.getUidFields()
+
+    Utils.forOwn(fields, (attr, key) => {
+      let taken: Set<any> | null = null
+
+      Utils.forOwn(records, (record) => {
+        if (typeof record[key] === 'string' || typeof record[key] === 'number') {
+          return
+        }
+
+        // The ids taken by the records in the state and the given records
+        // are collected only once any record needs a new id.
+        const ids = taken || (taken = this.getTakenIds(records, query, key))
+
+        record[key] = attr.generate((id: string) => ids.has(id))
+
+        ids.add(record[key])
+      })
+    })
+  }
+
+  /**
+   * Get the values of the given field of the records in the state and the
+   * given records.
+   */
+  private static getTakenIds (records: Records, query: Query, key: string): Set<any> {
+    const ids = new Set<any>()
+
+    const add = (record: Record) => { record && ids.add(record[key]) }
+
+    Utils.forOwn(query.state.data, add)
+    Utils.forOwn(records, add)
+
+    return ids
+  }
+}
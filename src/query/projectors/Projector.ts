@@ -0,0 +1,90 @@
+import Record from '../../data/Record'
+import Collection from '../../data/Collection'
+import Instance from '../../data/Instance'
+import Loader from '../loaders/Loader'
+import Query from '../Query'
+
+export default class Projector {
+  /**
+   * Create lightweight instances of the given records that only contain the
+   * selected fields, along with the eager loaded relationships and their
+   * aggregates. The instances are created without calling the constructor,
+   * so none of the other fields are filled.
+   */
+  static project (query: Query, collection: Collection): Collection {
+    const loaded = this.getLoadedNames(query)
+
+    // The relationships are loaded onto shadow copies of the records, since
+    // loading them may require the fields that were not selected, such as
+    // foreign keys. The loaded properties are defined on the shadows up front
+    // so that setting them never reaches the records in the store.
+    const shadows: Collection = collection.map(record => Object.create(record, this.describeProperties(loaded)))
+
+    Loader.eagerLoadRelations(query, shadows)
+    Loader.eagerLoadAggregates(query, shadows)
+
+    const fields = [...(query.projection as string[]), ...loaded]
+
+    return shadows.map(shadow => this.pick(shadow, fields))
+  }
+
+  /**
+   * Replace the related records loaded to the given collection with the
+   * lightweight instances that only contain the given fields, along with
+   * the relationships the related query loaded.
+   */
+  static projectRelation (query: Query, projection: string[], collection: Collection, name: string): void {
+    // The pivot records exposed by the many to many relationships are kept,
+    // since they aren't the fields of the related records.
+    const fields = [...projection, ...this.getLoadedNames(query), 'pivot']
+
+    collection.forEach((model) => {
+      const related = model[name]
+
+      if (Array.isArray(related)) {
+        model[name] = related.map(record => this.pick(record, fields))
+
+        return
+      }
+
+      model[name] = related ? this.pick(related, fields) : related
+    })
+  }
+
+  /**
+   * Create a lightweight instance of the given record that only contains the
+   * given fields.
+   */
+  static pick (record: Record, fields: string[]): Instance {
+    const instance: Instance = Object.create(record.constructor.prototype)
+
+    instance.$id = record.$id
+
+    fields.forEach((field) => {
+      if (field in record) {
+        instance[field] = record[field]
+      }
+    })
+
+    return instance
+  }
+
+  /**
+   * Get the names of the relationships and relationship aggregates the
+   * given query loads.
+   */
+  static getLoadedNames (query: Query): string[] {
+    return [...Object.keys(query.load), ...query.relationAggregates.map(aggregate => aggregate.name)]
+  }
+
+  /**
+   * Create writable property descriptors for the given names.
+   */
+  static describeProperties (names: string[]): PropertyDescriptorMap {
+    return names.reduce<PropertyDescriptorMap>((properties, name) => {
+      properties[name] = { value: undefined, writable: true, enumerable: true, configurable: true }
+
+      return properties
+    }, {})
+  }
+}
@@ -40,12 +40,27 @@ export default class Rollcaller {
    */
   private static setHas (query: Query, relation: string, type: string, operator: string | number = '>=', count: number = 1, constraint: HasConstraint | null = null): void {
     if (typeof operator === 'number') {
-      query.have.push({ relation, type, operator: '>=', count: operator, constraint })
+      this.setHas(query, relation, type, '>=', operator, constraint)
 
       return
     }
 
-    query.have.push({ relation, type, operator, count, constraint })
+    const [name, ...children] = relation.split('.')
+
+    if (children.length === 0) {
+      query.have.push({ relation, type, operator, count, constraint })
+
+      return
+    }
+
+    // For a nested relationship such as `posts.comments`, the condition is
+    // set on the last relationship. The ones in between only have to have
+    // any related record that matches the condition of the next one.
+    const nestedConstraint: HasConstraint = (relatedQuery) => {
+      this.setHas(relatedQuery, children.join('.'), 'exists', operator, count, constraint)
+    }
+
+    query.have.push({ relation: name, type, operator: '>=', count: 1, constraint: nestedConstraint })
   }
 
   /**
@@ -6,6 +6,8 @@ export type Install = (database: Database, options?: Options) => Vuex.Plugin<any
 
 export interface Options {
   namespace?: string
+  cache?: boolean
+  history?: boolean
 }
 
 export default (database: Database, options: Options = {}): Vuex.Plugin<any> => {
@@ -14,6 +16,9 @@ export default (database: Database, options: Options = {}): Vuex.Plugin<any> =>
   return (store: Vuex.Store<any>): void => {
     Container.register(database)
 
+    database.cache.enabled = !!options.cache
+    database.history.enabled = !!options.history
+
     database.start(store, namespace)
   }
 }
@@ -1,5 +1,9 @@
 export type Iteratee = (value: any, key: string, collection: any) => any
 
+export type SortIteratee<T> = string | ((value: T) => any)
+
+export type Comparer = (value: any, other: any) => number
+
 export type Predicate<T> = (value: T, key: string) => boolean
 
 export interface Dictionary<T> {
@@ -59,19 +63,21 @@ export function pickBy<T> (object: Dictionary<T>, predicate: Predicate<T>): Dict
 
 /**
  * Creates an array of elements, sorted in specified order by the results
- * of running each element in a collection thru each iteratee.
+ * of running each element in a collection thru each iteratee. The iteratee
+ * may be either a key of the element or a function that returns the value.
+ * The values are compared by the comparer of the same position when given.
  */
-export function orderBy<T> (collection: T[], keys: string[], directions: string[]): any {
+export function orderBy<T> (collection: T[], iteratees: SortIteratee<T>[], directions: string[], comparers: Comparer[] = []): any {
   let index = -1
 
   const result = collection.map((value) => {
-    const criteria = keys.map(key => value[key])
+    const criteria = iteratees.map(iteratee => typeof iteratee === 'function' ? iteratee(value) : value[iteratee])
 
     return { criteria: criteria, index: ++index, value: value }
   })
 
   return baseSortBy(result, (object: any, other: any) => {
-    return compareMultiple(object, other, directions)
+    return compareMultiple(object, other, directions, comparers)
   })
 }
 
@@ -118,7 +124,7 @@ function baseSortBy (array: any[], comparer: any): any[] {
  * Otherwise, specify an order of "desc" for descending or "asc" for
  * ascending sort order of corresponding values.
  */
-function compareMultiple (object: any, other: any, orders: string[]): number {
+function compareMultiple (object: any, other: any, orders: string[], comparers: Comparer[]): number {
   const objCriteria = object.criteria
   const othCriteria = other.criteria
   const length = objCriteria.length
@@ -127,7 +133,9 @@ function compareMultiple (object: any, other: any, orders: string[]): number {
   let index = -1
 
   while (++index < length) {
-    const result = compareAscending(objCriteria[index], othCriteria[index])
+    const compare = comparers[index] || compareAscending
+
+    const result = compare(objCriteria[index], othCriteria[index])
 
     if (result) {
       if (index >= ordersLength) {
@@ -146,7 +154,7 @@ function compareMultiple (object: any, other: any, orders: string[]): number {
 /**
  * Compares values to sort them in ascending order.
  */
-function compareAscending (value: any, other: any): number {
+export function compareAscending (value: any, other: any): number {
   if (value !== other) {
     if (value > other) {
       return 1
@@ -160,7 +168,71 @@ function compareAscending (value: any, other: any): number {
   return 0
 }
 
+/**
+ * Creates a deep clone of the given value. Only arrays, plain objects and
+ * dates are cloned, other values are returned as they are.
+ */
+export function cloneDeep<T> (value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(cloneDeep) as any
+  }
+
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as any
+  }
+
+  if (isPlainObject(value)) {
+    return mapValues(value, cloneDeep)
+  }
+
+  return value
+}
+
+/**
+ * Performs a deep comparison between the given values to determine if they
+ * are equivalent. Arrays, plain objects and dates are compared by their
+ * contents, other values are compared by identity.
+ */
+export function isEqual (value: any, other: any): boolean {
+  if (value === other) {
+    return true
+  }
+
+  if (Array.isArray(value) && Array.isArray(other)) {
+    return value.length === other.length && value.every((v, index) => isEqual(v, other[index]))
+  }
+
+  if (value instanceof Date && other instanceof Date) {
+    return value.getTime() === other.getTime()
+  }
+
+  if (isPlainObject(value) && isPlainObject(other)) {
+    const keys = Object.keys(value)
+
+    return keys.length === Object.keys(other).length && keys.every(key => key in other && isEqual(value[key], other[key]))
+  }
+
+  // Treat `NaN` as equal to itself.
+  return value !== value && other !== other
+}
+
+/**
+ * Check if the given value is a plain object.
+ */
+function isPlainObject (value: any): boolean {
+  if (value === null || typeof value !== 'object') {
+    return false
+  }
+
+  const prototype = Object.getPrototypeOf(value)
+
+  return prototype === Object.prototype || prototype === null
+}
+
 export default {
+  cloneDeep,
+  compareAscending,
+  isEqual,
   isEmpty,
   forOwn,
   groupBy,
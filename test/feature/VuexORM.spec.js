@@ -1,6 +1,7 @@
 import Vue from 'vue'
 import Vuex from 'vuex'
 import VuexORM from 'app/index'
+import VuexORMCommon from 'app/index.cjs'
 
 describe('Feature – Vuex ORM', () => {
   Vue.use(Vuex)
@@ -83,4 +84,13 @@ describe('Feature – Vuex ORM', () => {
     expect(store.state.entities.users.$name).toBe('users')
     expect(store.state.entities.users.customState).toBe('Yes, it is custom')
   })
+
+  it('exposes the aggregators on the CommonJS entry as well', () => {
+    expect(VuexORMCommon.Aggregates).toBe(VuexORM.Aggregates)
+    expect(typeof VuexORMCommon.Aggregates.sum).toBe('function')
+  })
+
+  it('exposes the live query on the CommonJS entry as well', () => {
+    expect(VuexORMCommon.LiveQuery).toBe(VuexORM.LiveQuery)
+  })
 })
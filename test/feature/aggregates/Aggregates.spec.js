@@ -73,4 +73,19 @@ describe('Feature – Aggregates', () => {
     expect(User.query().sum('id')).toBe(31)
     expect(User.query().where('role', 'admin').sum('id')).toBe(19)
   })
+
+  it('can get average value of the specified field', async () => {
+    await User.create({
+      data: [
+        { id: 8, role: 'admin' },
+        { id: 12, role: 'user' },
+        { id: 11, role: 'admin' },
+        { id: 'A', role: 'admin' }
+      ]
+    })
+
+    expect(User.query().avg('id')).toBe(31 / 3)
+    expect(User.query().where('role', 'admin').avg('id')).toBe(9.5)
+    expect(User.query().where('role', 'guest').avg('id')).toBe(0)
+  })
 })
@@ -0,0 +1,95 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+import { Aggregates } from 'app/index'
+
+describe('Feature – Aggregates – Group By', () => {
+  const { count, sum, avg, max, min } = Aggregates
+
+  class Order extends Model {
+    static entity = 'orders'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        status: this.attr(''),
+        region: this.attr(''),
+        amount: this.attr(0)
+      }
+    }
+  }
+
+  beforeEach(() => {
+    createStore([{ model: Order }])
+
+    Order.create({
+      data: [
+        { id: 1, status: 'paid', region: 'eu', amount: 100 },
+        { id: 2, status: 'pending', region: 'us', amount: 50 },
+        { id: 3, status: 'paid', region: 'us', amount: 30 },
+        { id: 4, status: 'refunded', region: 'eu', amount: 20 },
+        { id: 5, status: 'paid', region: 'eu', amount: 70 }
+      ]
+    })
+  })
+
+  it('can group records by a field', () => {
+    const groups = Order.query().groupBy('status').getGroups()
+
+    expect(groups.length).toBe(3)
+    expect(groups[0].key).toEqual({ status: 'paid' })
+    expect(groups[0].data.map(order => order.id)).toEqual([1, 3, 5])
+    expect(groups[1].key).toEqual({ status: 'pending' })
+    expect(groups[2].key).toEqual({ status: 'refunded' })
+    expect(groups[0].data[0]).toBeInstanceOf(Order)
+  })
+
+  it('can group records by multiple fields', () => {
+    const groups = Order.query().where('amount', '>', 25).groupBy(['status', 'region']).getGroups()
+
+    expect(groups.map(group => group.key)).toEqual([
+      { status: 'paid', region: 'eu' },
+      { status: 'pending', region: 'us' },
+      { status: 'paid', region: 'us' }
+    ])
+    expect(groups[0].data.map(order => order.id)).toEqual([1, 5])
+  })
+
+  it('orders the groups by the order of the records', () => {
+    const groups = Order.query().orderBy('amount').groupBy('region').getGroups()
+
+    expect(groups.map(group => group.key.region)).toEqual(['eu', 'us'])
+    expect(groups[0].data.map(order => order.id)).toEqual([4, 5, 1])
+  })
+
+  it('can aggregate each group', () => {
+    const rows = Order.query().groupBy('status').aggregate({
+      total: sum('amount'),
+      n: count(),
+      average: avg('amount'),
+      highest: max('amount'),
+      lowest: min('amount')
+    })
+
+    expect(rows).toEqual([
+      { status: 'paid', total: 200, n: 3, average: 200 / 3, highest: 100, lowest: 30 },
+      { status: 'pending', total: 50, n: 1, average: 50, highest: 50, lowest: 50 },
+      { status: 'refunded', total: 20, n: 1, average: 20, highest: 20, lowest: 20 }
+    ])
+  })
+
+  it('aggregates all records as a single group without group fields', () => {
+    expect(Order.query().aggregate({ total: sum('amount'), n: count() })).toEqual([{ total: 270, n: 5 }])
+    expect(Order.query().where('status', 'void').aggregate({ n: count() })).toEqual([{ n: 0 }])
+  })
+
+  it('can aggregate by custom aggregators', () => {
+    const rows = Order.query().groupBy('region').aggregate({
+      ids: orders => orders.map(order => order.id)
+    })
+
+    expect(rows).toEqual([
+      { region: 'eu', ids: [1, 4, 5] },
+      { region: 'us', ids: [2, 3] }
+    ])
+  })
+})
@@ -0,0 +1,57 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Attributes – Array', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        tags: this.array(),
+        scores: this.array(this.number(0)),
+        dates: this.array(this.date(null)),
+        aliases: this.array(this.string(''), null).nullable()
+      }
+    }
+  }
+
+  it('casts each item by the given attribute', async () => {
+    createStore([{ model: User }])
+
+    await User.insert({
+      data: { id: 1, tags: ['a', 1], scores: ['1', 2.5, true], dates: ['2020-05-01T10:00:00.000Z'], aliases: [1] }
+    })
+
+    const user = User.find(1)
+
+    expect(user.tags).toEqual(['a', 1])
+    expect(user.scores).toEqual([1, 2.5, 1])
+    expect(user.dates[0]).toBeInstanceOf(Date)
+    expect(user.aliases).toEqual(['1'])
+    expect(user.$toJson().dates).toEqual(['2020-05-01T10:00:00.000Z'])
+  })
+
+  it('falls back to the default value for the values that are not arrays', async () => {
+    createStore([{ model: User }])
+
+    await User.insert({
+      data: [{ id: 1 }, { id: 2, tags: 'a', scores: null, aliases: null }]
+    })
+
+    expect(User.find(1).tags).toEqual([])
+    expect(User.find(1).aliases).toBe(null)
+    expect(User.find(2).tags).toEqual([])
+    expect(User.find(2).scores).toEqual([])
+    expect(User.find(2).aliases).toBe(null)
+  })
+
+  it('does not share the default value between records', async () => {
+    createStore([{ model: User }])
+
+    const a = new User()
+    const b = new User()
+
+    expect(a.tags).not.toBe(b.tags)
+  })
+})
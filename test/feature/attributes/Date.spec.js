@@ -0,0 +1,61 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Attributes – Date', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        created_at: this.date(null),
+        deleted_at: this.date(null).nullable(),
+        updated_at: this.date('2020-01-01T00:00:00.000Z')
+      }
+    }
+  }
+
+  it('parses ISO strings and timestamps to `Date`', async () => {
+    createStore([{ model: User }])
+
+    await User.insert({
+      data: [
+        { id: 1, created_at: '2020-05-01T10:00:00.000Z' },
+        { id: 2, created_at: 1588327200000 },
+        { id: 3, created_at: new Date(1588327200000) }
+      ]
+    })
+
+    User.all().forEach((user) => {
+      expect(user.created_at).toBeInstanceOf(Date)
+      expect(user.created_at.getTime()).toBe(1588327200000)
+    })
+  })
+
+  it('falls back to the default value for invalid values', async () => {
+    createStore([{ model: User }])
+
+    await User.insert({
+      data: { id: 1, created_at: 'invalid', deleted_at: null, updated_at: true }
+    })
+
+    const user = User.find(1)
+
+    expect(user.created_at).toBe(null)
+    expect(user.deleted_at).toBe(null)
+    expect(user.updated_at.toISOString()).toBe('2020-01-01T00:00:00.000Z')
+  })
+
+  it('serializes the dates back to ISO strings', async () => {
+    createStore([{ model: User }])
+
+    await User.insert({ data: { id: 1, created_at: 1588327200000 } })
+
+    expect(User.find(1).$toJson()).toEqual({
+      id: 1,
+      created_at: '2020-05-01T10:00:00.000Z',
+      deleted_at: null,
+      updated_at: '2020-01-01T00:00:00.000Z'
+    })
+  })
+})
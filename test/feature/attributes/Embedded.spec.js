@@ -0,0 +1,115 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Attributes – Embedded', () => {
+  class Money extends Model {
+    static entity = 'money'
+
+    static fields () {
+      return {
+        amount: this.number(0),
+        currency: this.string('USD', value => value.toUpperCase())
+      }
+    }
+
+    format () {
+      return `${this.amount} ${this.currency}`
+    }
+  }
+
+  class Address extends Model {
+    static entity = 'address'
+
+    static fields () {
+      return {
+        city: this.string(''),
+        zip: this.string('')
+      }
+    }
+  }
+
+  class Order extends Model {
+    static entity = 'orders'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        total: this.embedded(Money),
+        address: this.embedded(Address).nullable(),
+        items: this.array(this.embedded(Money))
+      }
+    }
+  }
+
+  it('hydrates the value into the value model', async () => {
+    const store = createStore([{ model: Order }])
+
+    await Order.insert({
+      data: { id: 1, total: { amount: '10', currency: 'eur' }, address: { city: 'Tokyo' } }
+    })
+
+    const order = Order.find(1)
+
+    expect(order.total).toBeInstanceOf(Money)
+    expect(order.total.format()).toBe('10 EUR')
+    expect(order.address).toBeInstanceOf(Address)
+    expect(order.address.zip).toBe('')
+
+    expect(Object.keys(store.state.entities)).not.toContain('money')
+  })
+
+  it('fills the value model with the default values when the value is missing', async () => {
+    createStore([{ model: Order }])
+
+    await Order.insert({ data: { id: 1 } })
+
+    const order = Order.find(1)
+
+    expect(order.total.format()).toBe('0 USD')
+    expect(order.address).toBe(null)
+    expect(order.items).toEqual([])
+  })
+
+  it('supports arrays of the values', async () => {
+    createStore([{ model: Order }])
+
+    await Order.insert({
+      data: { id: 1, items: [{ amount: 1 }, { amount: 2, currency: 'jpy' }] }
+    })
+
+    const items = Order.find(1).items
+
+    expect(items[0]).toBeInstanceOf(Money)
+    expect(items.map(item => item.format())).toEqual(['1 USD', '2 JPY'])
+  })
+
+  it('serializes the values', async () => {
+    createStore([{ model: Order }])
+
+    await Order.insert({
+      data: { id: 1, total: { amount: 10 }, items: [{ amount: 1 }] }
+    })
+
+    expect(Order.find(1).$toJson()).toEqual({
+      id: 1,
+      total: { amount: 10, currency: 'USD' },
+      address: null,
+      items: [{ amount: 1, currency: 'USD' }]
+    })
+  })
+
+  it('makes the model dirty when the value is changed in place', async () => {
+    createStore([{ model: Order }])
+
+    await Order.insert({ data: { id: 1, total: { amount: 10 } } })
+
+    const order = new Order(Order.find(1))
+
+    expect(order.$isDirty()).toBe(false)
+
+    order.total.amount = 20
+
+    expect(order.$getChanges()).toEqual({ total: order.total })
+    expect(order.$getOriginal('total').amount).toBe(10)
+  })
+})
@@ -0,0 +1,44 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Attributes – Enum', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        role: this.enum(['admin', 'user'], 'user'),
+        level: this.enum([1, 2, 3]),
+        status: this.enum(['active', 'inactive']).nullable()
+      }
+    }
+  }
+
+  it('coerces the value to one of the values', async () => {
+    createStore([{ model: User }])
+
+    await User.insert({
+      data: [
+        { id: 1, role: 'admin', level: '2', status: null },
+        { id: 2, role: 'guest', level: 4, status: 'active' }
+      ]
+    })
+
+    expect(User.find(1).role).toBe('admin')
+    expect(User.find(1).level).toBe(2)
+    expect(User.find(1).status).toBe(null)
+    expect(User.find(2).role).toBe('user')
+    expect(User.find(2).level).toBe(null)
+    expect(User.find(2).status).toBe('active')
+  })
+
+  it('validates the value to be one of the values', () => {
+    createStore([{ model: User }])
+
+    expect(new User({ id: 1, level: 1 }).$validateSync()).toEqual({})
+    expect(new User({ id: 1 }).$validateSync()).toEqual({
+      level: ['The level field must be one of 1, 2, 3.']
+    })
+  })
+})
@@ -0,0 +1,45 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Attributes – Object', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        meta: this.object(),
+        address: this.object({
+          city: this.string(''),
+          zip: this.number(0).nullable()
+        })
+      }
+    }
+  }
+
+  it('casts the properties declared in the shape', async () => {
+    createStore([{ model: User }])
+
+    await User.insert({
+      data: { id: 1, meta: { a: 1 }, address: { city: 1, zip: '1000', note: 'x' } }
+    })
+
+    const user = User.find(1)
+
+    expect(user.meta).toEqual({ a: 1 })
+    expect(user.address).toEqual({ city: '1', zip: 1000, note: 'x' })
+  })
+
+  it('falls back to the default value for the values that are not objects', async () => {
+    createStore([{ model: User }])
+
+    await User.insert({
+      data: [{ id: 1 }, { id: 2, meta: [1], address: 'Tokyo' }]
+    })
+
+    expect(User.find(1).meta).toEqual({})
+    expect(User.find(1).address).toEqual({ city: '', zip: 0 })
+    expect(User.find(2).meta).toEqual({})
+    expect(User.find(2).address).toEqual({ city: '', zip: 0 })
+  })
+})
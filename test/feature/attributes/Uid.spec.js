@@ -0,0 +1,69 @@
+import { createStore, refreshNoKey } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+import Uid from 'app/attributes/types/Uid'
+
+describe('Feature – Attributes – Uid', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.uid(),
+        name: this.attr(''),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.uid(() => `post-${Post.count++}`),
+        user_id: this.attr(null)
+      }
+    }
+  }
+
+  beforeEach(() => {
+    refreshNoKey()
+
+    Uid.count = 0
+    Post.count = 1
+  })
+
+  it('generates the ids when inserting records', async () => {
+    const store = createStore([{ model: User }, { model: Post }])
+
+    await User.insert({
+      data: [{ name: 'John', posts: [{}, {}] }, { id: 'custom', name: 'Jane' }]
+    })
+
+    expect(store.state.entities.users.data.$uid1.id).toBe('$uid1')
+    expect(store.state.entities.users.data.custom.id).toBe('custom')
+    expect(store.state.entities.posts.data['post-1'].user_id).toBe('$uid1')
+    expect(store.state.entities.posts.data['post-2'].user_id).toBe('$uid1')
+  })
+
+  it('skips the ids already taken by the records', async () => {
+    createStore([{ model: User }, { model: Post }])
+
+    await User.insert({ data: [{ id: '$uid1', name: 'John' }, { id: '$uid2', name: 'Jane' }] })
+    await User.insert({ data: { name: 'Andy' } })
+
+    expect(User.all().map(user => user.name)).toEqual(['John', 'Jane', 'Andy'])
+    expect(User.find('$uid3').name).toBe('Andy')
+
+    await User.insert({ data: [{ name: 'Roger' }, { id: '$uid4', name: 'Ringo' }] })
+
+    expect(User.all().length).toBe(5)
+    expect(User.find('$uid5').name).toBe('Roger')
+  })
+
+  it('leaves the field `null` when instantiating a model', () => {
+    createStore([{ model: User }, { model: Post }])
+
+    expect(new User().id).toBe(null)
+  })
+})
@@ -0,0 +1,232 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Basics – Delete Cascade', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        profile: this.hasOne(Profile, 'user_id').onDelete('cascade'),
+        posts: this.hasMany(Post, 'user_id').onDelete('setNull'),
+        roles: this.belongsToMany(Role, RoleUser, 'user_id', 'role_id').onDelete('detach'),
+        invoices: this.hasMany(Invoice, 'user_id').onDelete('restrict'),
+        comments: this.morphMany(Comment, 'commentable_id', 'commentable_type').onDelete('cascade')
+      }
+    }
+  }
+
+  class Profile extends Model {
+    static entity = 'profiles'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        photos: this.hasMany(Photo, 'profile_id').onDelete('cascade')
+      }
+    }
+  }
+
+  class Photo extends Model {
+    static entity = 'photos'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        profile_id: this.attr(null)
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null)
+      }
+    }
+  }
+
+  class Role extends Model {
+    static entity = 'roles'
+
+    static fields () {
+      return {
+        id: this.attr(null)
+      }
+    }
+  }
+
+  class RoleUser extends Model {
+    static entity = 'roleUser'
+
+    static primaryKey = ['role_id', 'user_id']
+
+    static fields () {
+      return {
+        role_id: this.attr(null),
+        user_id: this.attr(null)
+      }
+    }
+  }
+
+  class Invoice extends Model {
+    static entity = 'invoices'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null)
+      }
+    }
+  }
+
+  class Comment extends Model {
+    static entity = 'comments'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        commentable_id: this.attr(null),
+        commentable_type: this.attr(null)
+      }
+    }
+  }
+
+  beforeEach(async () => {
+    createStore([
+      { model: User },
+      { model: Profile },
+      { model: Photo },
+      { model: Post },
+      { model: Role },
+      { model: RoleUser },
+      { model: Invoice },
+      { model: Comment }
+    ])
+
+    await User.insert({
+      data: [
+        {
+          id: 1,
+          profile: { id: 1, photos: [{ id: 1 }, { id: 2 }] },
+          posts: [{ id: 1 }, { id: 2 }],
+          roles: [{ id: 1 }, { id: 2 }],
+          comments: [{ id: 1 }]
+        },
+        {
+          id: 2,
+          profile: { id: 2, photos: [{ id: 3 }] },
+          posts: [{ id: 3 }],
+          roles: [{ id: 1 }],
+          invoices: [{ id: 1 }],
+          comments: [{ id: 2 }]
+        }
+      ]
+    })
+
+    await Comment.insert({ data: { id: 3, commentable_id: 1, commentable_type: 'posts' } })
+  })
+
+  it('cascades the delete to the related records', async () => {
+    await User.delete(1)
+
+    expect(Profile.all().map(profile => profile.id)).toEqual([2])
+    expect(Photo.all().map(photo => photo.id)).toEqual([3])
+    expect(Comment.all().map(comment => comment.id)).toEqual([2, 3])
+  })
+
+  it('sets the foreign keys of the related records to null', async () => {
+    await User.delete(1)
+
+    expect(Post.all().map(post => [post.id, post.user_id])).toEqual([[1, null], [2, null], [3, 2]])
+  })
+
+  it('detaches the pivot records leaving the related records', async () => {
+    await User.delete(1)
+
+    expect(RoleUser.all().map(pivot => [pivot.role_id, pivot.user_id])).toEqual([[1, 2]])
+    expect(Role.all().length).toBe(2)
+  })
+
+  it('aborts the whole delete when restricted by related records', async () => {
+    await expect(User.delete(2)).rejects.toThrow()
+
+    expect(User.find(2)).not.toBe(null)
+    expect(Profile.find(2)).not.toBe(null)
+    expect(Post.find(3).user_id).toBe(2)
+
+    await expect(User.deleteAll()).rejects.toThrow()
+
+    expect(User.all().length).toBe(2)
+  })
+
+  it('keeps the strict mode of the store working after a restricted delete', async () => {
+    const store = User.store()
+
+    await expect(User.delete(2)).rejects.toThrow()
+
+    expect(store._committing).toBe(false)
+
+    await expect(User.deleteAll()).rejects.toThrow()
+
+    expect(store._committing).toBe(false)
+
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    store.state.entities.users.data = {}
+
+    expect(spy).toHaveBeenCalled()
+
+    spy.mockRestore()
+  })
+
+  it('keeps the strict mode of the store working after a delete with an invalid policy', async () => {
+    class Team extends Model {
+      static entity = 'teams'
+
+      static fields () {
+        return {
+          id: this.attr(null),
+          roles: this.belongsToMany(Role, RoleUser, 'user_id', 'role_id').onDelete('setNull')
+        }
+      }
+    }
+
+    const store = createStore([{ model: Team }, { model: Role }, { model: RoleUser }])
+
+    await Team.insert({ data: { id: 1, roles: [{ id: 1 }] } })
+
+    await expect(Team.delete(1)).rejects.toThrow('pivot-based')
+
+    expect(store._committing).toBe(false)
+    expect(Team.find(1)).not.toBe(null)
+  })
+
+  it('fires the delete hooks of the cascaded records', async () => {
+    const deleted = []
+
+    Photo.beforeDelete = (photo) => { deleted.push(photo.id) }
+
+    await User.delete(1)
+
+    delete Photo.beforeDelete
+
+    expect(deleted).toEqual([1, 2])
+  })
+
+  it('does not cascade when the delete was cancelled by the hook', async () => {
+    User.beforeDelete = () => false
+
+    await User.delete(1)
+
+    delete User.beforeDelete
+
+    expect(Profile.find(1)).not.toBe(null)
+    expect(Post.find(1).user_id).toBe(1)
+  })
+})
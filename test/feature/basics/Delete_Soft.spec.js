@@ -0,0 +1,123 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Delete – Soft', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static softDeletes = 'deleted_at'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        title: this.attr('')
+      }
+    }
+  }
+
+  beforeEach(() => {
+    createStore([{ model: User }, { model: Post }])
+
+    User.insert({
+      data: {
+        id: 1,
+        name: 'John',
+        posts: [{ id: 1, title: 'A' }, { id: 2, title: 'B' }, { id: 3, title: 'C' }]
+      }
+    })
+  })
+
+  it('sets the time the record was deleted instead of removing it', async () => {
+    const post = await Post.delete(1)
+
+    expect(post.deleted_at).not.toBe(null)
+    expect(post.$isTrashed()).toBe(true)
+    expect(Post.query().withTrashed().find(1).deleted_at).toBe(post.deleted_at)
+  })
+
+  it('hides the soft deleted records from the query', async () => {
+    await Post.delete(post => post.title !== 'B')
+
+    expect(Post.all().map(post => post.id)).toEqual([2])
+    expect(Post.find(1)).toBe(null)
+    expect(Post.findIn([1, 2]).map(post => post.id)).toEqual([2])
+    expect(Post.query().count()).toBe(1)
+    expect(Post.query().where('title', 'A').first()).toBe(null)
+  })
+
+  it('can include the soft deleted records', async () => {
+    await Post.delete(1)
+
+    expect(Post.query().withTrashed().get().map(post => post.id)).toEqual([1, 2, 3])
+    expect(Post.query().onlyTrashed().get().map(post => post.id)).toEqual([1])
+  })
+
+  it('hides the soft deleted records from the relationships', async () => {
+    await Post.delete(1)
+
+    const user = User.query().with('posts').withCount('posts').find(1)
+
+    expect(user.posts.map(post => post.id)).toEqual([2, 3])
+    expect(user.posts_count).toBe(2)
+
+    const withTrashed = User.query().with('posts', query => query.withTrashed()).find(1)
+
+    expect(withTrashed.posts.map(post => post.id)).toEqual([1, 2, 3])
+
+    await Post.delete(post => post.user_id === 1)
+
+    expect(User.query().has('posts').get()).toEqual([])
+  })
+
+  it('can restore the soft deleted records', async () => {
+    await Post.delete(1)
+
+    const post = await Post.restore(1)
+
+    expect(post.deleted_at).toBe(null)
+    expect(Post.find(1).id).toBe(1)
+  })
+
+  it('can restore the soft deleted record through the instance', async () => {
+    await Post.delete(1)
+
+    await Post.query().onlyTrashed().find(1).$restore()
+
+    expect(Post.all().map(post => post.id)).toEqual([1, 2, 3])
+  })
+
+  it('can force delete the records', async () => {
+    await Post.delete(1)
+
+    await Post.forceDelete(1)
+    await Post.find(2).$forceDelete()
+
+    expect(Post.query().withTrashed().get().map(post => post.id)).toEqual([3])
+  })
+
+  it('calls the delete hooks when soft deleting the records', async () => {
+    Post.beforeDelete = post => post.id !== 2
+    Post.afterDelete = jest.fn()
+
+    await Post.delete(() => true)
+
+    expect(Post.all().map(post => post.id)).toEqual([2])
+    expect(Post.afterDelete).toHaveBeenCalledTimes(2)
+
+    delete Post.beforeDelete
+    delete Post.afterDelete
+  })
+})
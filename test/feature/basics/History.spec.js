@@ -0,0 +1,201 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – History', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        title: this.attr('')
+      }
+    }
+  }
+
+  class Draft extends Model {
+    static entity = 'drafts'
+
+    static history = false
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        body: this.attr('')
+      }
+    }
+  }
+
+  let history
+
+  beforeEach(() => {
+    const users = {
+      actions: {
+        rename (context, { id, name }) {
+          context.dispatch('update', { where: id, data: { name } })
+          context.dispatch('entities/posts/update', { where: post => post.user_id === id, data: { title: name } }, { root: true })
+        }
+      }
+    }
+
+    createStore([{ model: User, module: users }, { model: Post }, { model: Draft }], 'entities', { history: true })
+
+    history = User.database().history
+  })
+
+  const names = () => User.all().map(user => user.name)
+
+  it('can undo and redo the insert', async () => {
+    await User.insert({ data: { id: 1, name: 'John' } })
+    await User.insert({ data: { id: 2, name: 'Jane' } })
+
+    history.undo()
+
+    expect(names()).toEqual(['John'])
+
+    history.undo()
+
+    expect(names()).toEqual([])
+    expect(history.canUndo()).toBe(false)
+
+    history.redo()
+    history.redo()
+
+    expect(names()).toEqual(['John', 'Jane'])
+    expect(history.canRedo()).toBe(false)
+  })
+
+  it('can undo and redo the update and delete', async () => {
+    await User.insert({ data: { id: 1, name: 'John' } })
+    await User.update({ where: 1, data: { name: 'Johnny' } })
+    await User.delete(1)
+
+    history.undo()
+
+    expect(names()).toEqual(['Johnny'])
+
+    history.undo()
+
+    expect(names()).toEqual(['John'])
+
+    history.redo()
+
+    expect(names()).toEqual(['Johnny'])
+  })
+
+  it('can undo the create that replaced the records', async () => {
+    await User.insert({ data: [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }] })
+    await User.create({ data: { id: 3, name: 'Andy' } })
+
+    history.undo()
+
+    expect(names()).toEqual(['John', 'Jane'])
+  })
+
+  it('groups the changes across entities made by a single action', async () => {
+    await User.insertOrUpdate({ data: { id: 1, name: 'John', posts: [{ id: 1, title: 'A' }, { id: 2, title: 'B' }] } })
+
+    history.undo()
+
+    expect(User.all()).toEqual([])
+    expect(Post.all()).toEqual([])
+
+    history.redo()
+
+    expect(User.query().with('posts').find(1).posts.length).toBe(2)
+  })
+
+  it('groups the changes made by the actions an action dispatches', async () => {
+    await User.insert({ data: { id: 1, name: 'John', posts: [{ id: 1, title: 'A' }] } })
+
+    await User.dispatch('rename', { id: 1, name: 'Johnny' })
+
+    expect(history.undoStack.length).toBe(2)
+
+    history.undo()
+
+    expect(names()).toEqual(['John'])
+    expect(Post.find(1).title).toBe('A')
+  })
+
+  it('can undo the update made by a closure', async () => {
+    await User.insert({ data: { id: 1, name: 'John' } })
+    await User.update({ where: 1, data: (user) => { user.name = 'Johnny' } })
+
+    expect(names()).toEqual(['Johnny'])
+
+    history.undo()
+
+    expect(names()).toEqual(['John'])
+
+    history.redo()
+
+    expect(names()).toEqual(['Johnny'])
+  })
+
+  it('groups the changes made during a transaction', async () => {
+    await User.database().transaction(async () => {
+      await User.insert({ data: { id: 1, name: 'John' } })
+      await User.update({ where: 1, data: { name: 'Johnny' } })
+      await Post.insert({ data: { id: 1, user_id: 1, title: 'A' } })
+    })
+
+    expect(history.undoStack.length).toBe(1)
+
+    history.undo()
+
+    expect(User.all()).toEqual([])
+    expect(Post.all()).toEqual([])
+  })
+
+  it('clears the redo stack on a new change', async () => {
+    await User.insert({ data: { id: 1, name: 'John' } })
+
+    history.undo()
+
+    await User.insert({ data: { id: 2, name: 'Jane' } })
+
+    expect(history.canRedo()).toBe(false)
+  })
+
+  it('keeps only the given number of entries', async () => {
+    history.maxDepth = 2
+
+    await User.insert({ data: { id: 1, name: 'John' } })
+    await User.insert({ data: { id: 2, name: 'Jane' } })
+    await User.insert({ data: { id: 3, name: 'Andy' } })
+
+    history.undo()
+    history.undo()
+    history.undo()
+
+    expect(names()).toEqual(['John'])
+  })
+
+  it('does not record the entities opted out', async () => {
+    await Draft.insert({ data: { id: 1, body: 'Hello' } })
+
+    expect(history.canUndo()).toBe(false)
+  })
+
+  it('does not record the changes unless enabled', async () => {
+    createStore([{ model: User }, { model: Post }])
+
+    await User.insert({ data: { id: 1, name: 'John' } })
+
+    expect(User.database().history.canUndo()).toBe(false)
+  })
+})
@@ -0,0 +1,312 @@
+import Vue from 'vue'
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+import Query from 'app/query/Query'
+
+describe('Feature – Retrieve – Cache', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        title: this.attr(''),
+        comments: this.hasMany(Comment, 'post_id')
+      }
+    }
+  }
+
+  class Comment extends Model {
+    static entity = 'comments'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        post_id: this.attr(null),
+        body: this.attr('')
+      }
+    }
+  }
+
+  it('is disabled by default', () => {
+    const store = createStore([{ model: User }, { model: Post }, { model: Comment }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'A', comments: [{ id: 1, body: 'X' }] }] },
+        { id: 2, name: 'Jane', posts: [{ id: 2, title: 'B' }] }
+      ]
+    })
+
+    const cache = User.database().cache
+
+    User.query().get()
+    User.query().get()
+
+    expect(cache.enabled).toBe(false)
+    expect(cache.hits).toBe(0)
+    expect(cache.misses).toBe(0)
+  })
+
+  it('caches the results of the same query', () => {
+    const store = createStore([{ model: User }, { model: Post }, { model: Comment }], undefined, { cache: true })
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'A', comments: [{ id: 1, body: 'X' }] }] },
+        { id: 2, name: 'Jane', posts: [{ id: 2, title: 'B' }] }
+      ]
+    })
+
+    const cache = User.database().cache
+
+    const users1 = User.query().where('name', 'John').get()
+    const users2 = User.query().where('name', 'John').get()
+
+    expect(users2).toEqual(users1)
+    expect(users2[0]).toBe(users1[0])
+    expect(users2).not.toBe(users1)
+    expect(cache.hits).toBe(1)
+    expect(cache.misses).toBe(1)
+
+    User.query().where('name', 'Jane').get()
+    User.query().where('name', 'John').first()
+    User.query().where('name', 'John').last()
+
+    expect(cache.hits).toBe(1)
+    expect(cache.misses).toBe(4)
+  })
+
+  it('distinguishes queries by orders, limit and eager loading', () => {
+    const store = createStore([{ model: User }, { model: Post }, { model: Comment }], undefined, { cache: true })
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'A', comments: [{ id: 1, body: 'X' }] }] },
+        { id: 2, name: 'Jane', posts: [{ id: 2, title: 'B' }] }
+      ]
+    })
+
+    const cache = User.database().cache
+
+    User.query().orderBy('name').get()
+    User.query().orderBy('name', 'desc').get()
+    User.query().orderBy('name').limit(1).get()
+    User.query().with('posts').get()
+    User.query().with('posts.comments').get()
+    User.query().with('posts', query => query.where('title', 'A')).get()
+    User.query().with('posts', query => query.where('title', 'B')).get()
+
+    expect(cache.hits).toBe(0)
+    expect(cache.misses).toBe(7)
+
+    const users = User.query().with('posts', query => query.where('title', 'B')).get()
+
+    expect(cache.hits).toBe(1)
+    expect(users[1].posts[0].title).toBe('B')
+  })
+
+  it('copies the cached instances built by the query for each caller', () => {
+    const store = createStore([{ model: User }, { model: Post }, { model: Comment }], undefined, { cache: true })
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'A', comments: [{ id: 1, body: 'X' }] }] },
+        { id: 2, name: 'Jane', posts: [{ id: 2, title: 'B' }] }
+      ]
+    })
+
+    const users1 = User.query().with('posts').get()
+
+    users1[0].name = 'Changed'
+    users1[0].posts[0].title = 'Changed'
+
+    const users2 = User.query().with('posts').get()
+
+    expect(users2[0]).not.toBe(users1[0])
+    expect(users2[0]).toBeInstanceOf(User)
+    expect(users2[0].name).toBe('John')
+    expect(users2[0].posts[0]).toBeInstanceOf(Post)
+    expect(users2[0].posts[0].title).toBe('A')
+    expect(users2[0].$isDirty()).toBe(false)
+  })
+
+  it('invalidates the results when the entity gets mutated', async () => {
+    const store = createStore([{ model: User }, { model: Post }, { model: Comment }], undefined, { cache: true })
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'A', comments: [{ id: 1, body: 'X' }] }] },
+        { id: 2, name: 'Jane', posts: [{ id: 2, title: 'B' }] }
+      ]
+    })
+
+    const cache = User.database().cache
+
+    expect(User.query().get().length).toBe(2)
+
+    await User.insert({ data: { id: 3, name: 'Johnny' } })
+
+    expect(User.query().get().length).toBe(3)
+    expect(cache.hits).toBe(0)
+
+    await User.update({ where: 3, data: { name: 'Jack' } })
+
+    expect(User.query().where('name', 'Jack').get().length).toBe(1)
+
+    await User.delete(3)
+
+    expect(User.query().get().length).toBe(2)
+    expect(cache.hits).toBe(0)
+  })
+
+  it('invalidates the results when the eager loaded entity gets mutated', async () => {
+    const store = createStore([{ model: User }, { model: Post }, { model: Comment }], undefined, { cache: true })
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'A', comments: [{ id: 1, body: 'X' }] }] },
+        { id: 2, name: 'Jane', posts: [{ id: 2, title: 'B' }] }
+      ]
+    })
+
+    const cache = User.database().cache
+
+    expect(User.query().with('posts.comments').find(1)).not.toBe(null)
+    expect(User.query().with('posts.comments').first().posts[0].comments.length).toBe(1)
+    expect(User.query().with('posts.comments').first().posts[0].comments.length).toBe(1)
+    expect(cache.hits).toBe(1)
+
+    await Comment.insert({ data: { id: 2, post_id: 1 } })
+
+    expect(User.query().with('posts.comments').first().posts[0].comments.length).toBe(2)
+    expect(cache.hits).toBe(1)
+
+    // Mutating an entity the query doesn't depend on keeps the cache.
+    await Comment.insert({ data: { id: 3, post_id: 2 } })
+    User.query().get()
+    User.query().get()
+
+    expect(cache.hits).toBe(2)
+  })
+
+  it('invalidates the results when the records are changed through `commit`', () => {
+    const store = createStore([{ model: User }, { model: Post }, { model: Comment }], undefined, { cache: true })
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'A', comments: [{ id: 1, body: 'X' }] }] },
+        { id: 2, name: 'Jane', posts: [{ id: 2, title: 'B' }] }
+      ]
+    })
+
+    expect(User.query().where('name', 'John').get().length).toBe(1)
+
+    User.commit((state) => {
+      state.data[1].name = 'Johnny'
+    })
+
+    expect(User.query().where('name', 'John').get().length).toBe(0)
+  })
+
+  it('does not cache queries with closures or retrieve hooks', () => {
+    const store = createStore([{ model: User }, { model: Post }, { model: Comment }], undefined, { cache: true })
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'A', comments: [{ id: 1, body: 'X' }] }] },
+        { id: 2, name: 'Jane', posts: [{ id: 2, title: 'B' }] }
+      ]
+    })
+
+    const cache = User.database().cache
+
+    User.query().where('name', value => value === 'John').get()
+    User.query().where('name', value => value === 'John').get()
+    User.query().where(user => user.id === 1).get()
+    User.query().where(user => user.id === 1).get()
+
+    const id = Query.on('beforeSelect', records => records)
+
+    User.query().get()
+    User.query().get()
+
+    Query.off(id)
+
+    expect(cache.hits).toBe(0)
+    expect(cache.misses).toBe(6)
+    expect(cache.entries.size).toBe(0)
+  })
+
+  it('keeps the Vue watchers in sync on cache hits', async () => {
+    const store = createStore([{ model: User }, { model: Post }, { model: Comment }], undefined, { cache: true })
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'A', comments: [{ id: 1, body: 'X' }] }] },
+        { id: 2, name: 'Jane', posts: [{ id: 2, title: 'B' }] }
+      ]
+    })
+
+    const vm = new Vue({
+      store,
+      computed: {
+        names () {
+          return User.query().orderBy('name').get().map(user => user.name)
+        }
+      }
+    })
+
+    // Fill the cache before the computed property is evaluated.
+    User.query().orderBy('name').get()
+
+    expect(vm.names).toEqual(['Jane', 'John'])
+
+    await User.insert({ data: { id: 3, name: 'Adam' } })
+
+    expect(vm.names).toEqual(['Adam', 'Jane', 'John'])
+
+    vm.$destroy()
+  })
+
+  it('evicts the least recently used results', () => {
+    const store = createStore([{ model: User }, { model: Post }, { model: Comment }], undefined, { cache: true })
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'A', comments: [{ id: 1, body: 'X' }] }] },
+        { id: 2, name: 'Jane', posts: [{ id: 2, title: 'B' }] }
+      ]
+    })
+
+    const cache = User.database().cache
+
+    cache.size = 2
+
+    User.query().where('id', 1).get()
+    User.query().where('id', 2).get()
+    User.query().where('id', 1).get()
+    User.query().where('name', 'John').get()
+
+    expect(cache.entries.size).toBe(2)
+
+    User.query().where('id', 1).get()
+    User.query().where('id', 2).get()
+
+    expect(cache.hits).toBe(2)
+    expect(cache.misses).toBe(4)
+  })
+})
@@ -0,0 +1,161 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Retrieve – Live', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        active: this.attr(true),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        title: this.attr('')
+      }
+    }
+  }
+
+  class Comment extends Model {
+    static entity = 'comments'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        body: this.attr('')
+      }
+    }
+  }
+
+  beforeEach(() => {
+    createStore([{ model: User }, { model: Post }, { model: Comment }])
+
+    User.insert({
+      data: [
+        { id: 1, name: 'John', posts: [{ id: 1, title: 'Hello' }] },
+        { id: 2, name: 'Jane', active: false }
+      ]
+    })
+  })
+
+  it('returns a handle with the result of the query', () => {
+    const live = User.query().where('active', true).live()
+
+    expect(live.result.map(user => user.id)).toEqual([1])
+    expect(live.changes.added.map(user => user.id)).toEqual([1])
+
+    live.stop()
+  })
+
+  it('updates the result and reports the changes when the entity changes', () => {
+    const live = User.query().where('active', true).live()
+
+    User.insert({ data: { id: 3, name: 'Andy' } })
+
+    expect(live.result.map(user => user.id)).toEqual([1, 3])
+    expect(live.changes.added.map(user => user.id)).toEqual([3])
+    expect(live.changes.removed).toEqual([])
+    expect(live.changes.changed).toEqual([])
+
+    User.update({ where: 1, data: { name: 'Johnny' } })
+
+    expect(live.result[0].name).toBe('Johnny')
+    expect(live.changes.added).toEqual([])
+    expect(live.changes.changed.map(user => user.id)).toEqual([1])
+
+    User.update({ where: 3, data: { active: false } })
+
+    expect(live.result.map(user => user.id)).toEqual([1])
+    expect(live.changes.removed.map(user => user.id)).toEqual([3])
+
+    live.stop()
+  })
+
+  it('updates the result when the entity of a loaded relationship changes', () => {
+    const live = User.query().with('posts').live()
+
+    Post.insert({ data: { id: 2, user_id: 2, title: 'Hi' } })
+
+    expect(live.result[1].posts.map(post => post.id)).toEqual([2])
+    expect(live.changes.changed.map(user => user.id)).toEqual([2])
+
+    live.stop()
+  })
+
+  it('matches the `has` conditions against the current records', () => {
+    const live = User.query().has('posts').live()
+
+    expect(live.result.map(user => user.id)).toEqual([1])
+
+    Post.insert({ data: { id: 2, user_id: 2, title: 'Hi' } })
+
+    expect(live.result.map(user => user.id)).toEqual([1, 2])
+    expect(live.changes.added.map(user => user.id)).toEqual([2])
+
+    Post.delete(1)
+
+    expect(live.result.map(user => user.id)).toEqual([2])
+    expect(live.changes.removed.map(user => user.id)).toEqual([1])
+
+    live.stop()
+  })
+
+  it('updates the result when the records are changed in place', () => {
+    const live = User.query().live()
+
+    User.commit((state) => { state.data[1].name = 'Johnny' })
+
+    expect(live.result[0].name).toBe('Johnny')
+    expect(live.changes.changed.map(user => user.id)).toEqual([1])
+
+    live.stop()
+  })
+
+  it('notifies the listeners only when the result changes', () => {
+    const live = User.query().where('active', true).live()
+    const listener = jest.fn()
+
+    const unsubscribe = live.subscribe(listener)
+
+    Comment.insert({ data: { id: 1, body: 'Nice' } })
+    User.insert({ data: { id: 4, name: 'Roger', active: false } })
+
+    expect(listener).not.toHaveBeenCalled()
+
+    User.insert({ data: { id: 3, name: 'Andy' } })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener.mock.calls[0][0]).toBe(live.result)
+    expect(listener.mock.calls[0][1].added.map(user => user.id)).toEqual([3])
+
+    unsubscribe()
+
+    User.delete(3)
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(live.result.map(user => user.id)).toEqual([1])
+
+    live.stop()
+  })
+
+  it('stops updating the result when stopped', () => {
+    const live = User.query().live()
+
+    live.stop()
+
+    User.insert({ data: { id: 3, name: 'Andy' } })
+
+    expect(live.result.map(user => user.id)).toEqual([1, 2])
+  })
+})
@@ -0,0 +1,102 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Retrieve – Only', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        email: this.attr(''),
+        age: this.attr(null),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+
+    greet () {
+      return `Hello, ${this.name}`
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        title: this.attr(''),
+        body: this.attr('')
+      }
+    }
+  }
+
+  beforeEach(() => {
+    createStore([{ model: User }, { model: Post }])
+
+    User.create({
+      data: [
+        { id: 1, name: 'John', email: 'john@example.com', age: 30, posts: [{ id: 1, title: 'A', body: 'Body A' }] },
+        { id: 2, name: 'Jane', email: 'jane@example.com', age: 20 }
+      ]
+    })
+  })
+
+  it('can retrieve only the given fields', () => {
+    const users = User.query().only(['id', 'name']).get()
+
+    expect(users.length).toBe(2)
+    expect(users[0]).toBeInstanceOf(User)
+    expect(users[0].id).toBe(1)
+    expect(users[0].name).toBe('John')
+    expect(users[0].$id).toBe(1)
+    expect('email' in users[0]).toBe(false)
+    expect('posts' in users[0]).toBe(false)
+    expect(users[0].greet()).toBe('Hello, John')
+  })
+
+  it('can be called multiple times', () => {
+    const user = User.query().only('name').only('age').first()
+
+    expect(user.toJSON()).toEqual({ $id: 1, name: 'John', age: 30 })
+  })
+
+  it('can be combined with other clauses', () => {
+    const users = User.query().only('name').where('age', '<', 25).orderBy('name').get()
+
+    expect(users.map(user => user.name)).toEqual(['Jane'])
+  })
+
+  it('includes eager loaded relationships without the selected keys', () => {
+    const user = User.query().only('name').with('posts', query => query.only('title')).find(1)
+
+    expect(user.name).toBe('John')
+    expect('id' in user).toBe(false)
+    expect(user.posts.length).toBe(1)
+    expect(user.posts[0].title).toBe('A')
+    expect('body' in user.posts[0]).toBe(false)
+  })
+
+  it('includes relationship aggregates', () => {
+    const users = User.query().only('name').withCount('posts').get()
+
+    expect(users.map(user => user.posts_count)).toEqual([1, 0])
+  })
+
+  it('serializes only the selected fields', () => {
+    const user = User.query().only(['id', 'name']).first()
+
+    expect(user.$toJson()).toEqual({ id: 1, name: 'John' })
+  })
+
+  it('does not modify the records in the store', () => {
+    User.query().only('name').with('posts').get()
+
+    const user = User.find(1)
+
+    expect(user.email).toBe('john@example.com')
+    expect(user.posts).toEqual([])
+  })
+})
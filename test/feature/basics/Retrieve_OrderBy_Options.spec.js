@@ -0,0 +1,111 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Retrieve – Order By Options', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        profile: this.hasOne(Profile, 'user_id')
+      }
+    }
+  }
+
+  class Profile extends Model {
+    static entity = 'profiles'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        city: this.attr(null)
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        title: this.attr(''),
+        votes: this.attr(null),
+        meta: this.attr({}),
+        author: this.belongsTo(User, 'user_id')
+      }
+    }
+  }
+
+  beforeEach(() => {
+    createStore([{ model: User }, { model: Profile }, { model: Post }])
+
+    User.insert({
+      data: [
+        { id: 1, name: 'John', profile: { id: 1, city: 'Tokyo' } },
+        { id: 2, name: 'Andy', profile: { id: 2, city: null } },
+        { id: 3, name: 'émile', profile: { id: 3, city: 'Berlin' } }
+      ]
+    })
+
+    Post.insert({
+      data: [
+        { id: 1, user_id: 1, title: 'Hello', votes: 3, meta: { rank: 2 } },
+        { id: 2, user_id: 2, title: 'Hi', votes: null, meta: { rank: 1 } },
+        { id: 3, user_id: 3, title: 'Greetings', votes: 1, meta: {} },
+        { id: 4, user_id: 4, title: 'Howdy', votes: 2, meta: { rank: 3 } }
+      ]
+    })
+  })
+
+  it('can sort by a closure', () => {
+    const posts = Post.query().orderBy(post => post.title.length, 'desc').get()
+
+    expect(posts.map(post => post.id)).toEqual([3, 1, 4, 2])
+  })
+
+  it('can sort by a field of the relationship', () => {
+    const posts = Post.query().orderBy('author.name', 'asc', { nulls: 'last' }).get()
+
+    expect(posts.map(post => post.id)).toEqual([2, 1, 3, 4])
+  })
+
+  it('can sort by a field of the nested relationship', () => {
+    const posts = Post.query().orderBy('author.profile.city', 'asc', { nulls: 'first' }).get()
+
+    expect(posts.map(post => post.id)).toEqual([2, 4, 3, 1])
+  })
+
+  it('can sort by a path through the object field', () => {
+    const posts = Post.query().orderBy('meta.rank', 'desc', { nulls: 'last' }).get()
+
+    expect(posts.map(post => post.id)).toEqual([4, 1, 2, 3])
+  })
+
+  it('does not load the relationships of the result when sorting by them', () => {
+    const post = Post.query().orderBy('author.name').first()
+
+    expect(post.author).toBe(null)
+  })
+
+  it('can place null values first or last regardless of the direction', () => {
+    expect(Post.query().orderBy('votes', 'asc', { nulls: 'first' }).get().map(post => post.id)).toEqual([2, 3, 4, 1])
+    expect(Post.query().orderBy('votes', 'desc', { nulls: 'first' }).get().map(post => post.id)).toEqual([2, 1, 4, 3])
+    expect(Post.query().orderBy('votes', 'asc', { nulls: 'last' }).get().map(post => post.id)).toEqual([3, 4, 1, 2])
+    expect(Post.query().orderBy('votes', 'desc', { nulls: 'last' }).get().map(post => post.id)).toEqual([1, 4, 3, 2])
+  })
+
+  it('can sort strings by the locale', () => {
+    expect(User.query().orderBy('name').get().map(user => user.name)).toEqual(['Andy', 'John', 'émile'])
+    expect(User.query().orderBy('name', 'asc', { locale: 'en' }).get().map(user => user.name)).toEqual(['Andy', 'émile', 'John'])
+  })
+
+  it('throws when the cursor pagination is ordered by a closure or a path', () => {
+    expect(() => Post.query().orderBy('author.name').cursor({ perPage: 2 })).toThrow()
+    expect(() => Post.query().orderBy(post => post.votes).cursor({ perPage: 2 })).toThrow()
+  })
+})
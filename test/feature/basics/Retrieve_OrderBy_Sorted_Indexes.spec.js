@@ -0,0 +1,206 @@
+import { createStore } from 'test/support/Helpers'
+import Utils from 'app/support/Utils'
+import Model from 'app/model/Model'
+import Indexer from 'app/query/indexes/Indexer'
+
+describe('Feature – Retrieve – Order By – Sorted Indexes', () => {
+  class Post extends Model {
+    static entity = 'posts'
+
+    static sortedIndexes () {
+      return ['created_at']
+    }
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        created_at: this.attr(null),
+        votes: this.number(0).sortedIndex(),
+        title: this.string('')
+      }
+    }
+  }
+
+  // The same model without indexes to compare the results against.
+  class PlainPost extends Model {
+    static entity = 'plainPosts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        created_at: this.attr(null),
+        votes: this.number(0),
+        title: this.string('')
+      }
+    }
+  }
+
+  function records () {
+    const data = []
+
+    for (let i = 1; i <= 30; i++) {
+      data.push({ id: i, created_at: (i * 7) % 10, votes: i % 4, title: `Post ${i}` })
+    }
+
+    return data
+  }
+
+  function compare (build) {
+    const expected = build(PlainPost.query()).get().map(record => record.id)
+
+    expect(build(Post.query()).get().map(record => record.id)).toEqual(expected)
+  }
+
+  it('collects sorted indexed fields from `sortedIndexes` and the `sortedIndex` modifier', () => {
+    expect(Post.getSortedIndexedFields()).toEqual(['created_at', 'votes'])
+  })
+
+  it('can order records by a sorted index with the same stable order as sorting', () => {
+    const store = createStore([{ model: Post }, { model: PlainPost }])
+
+    const data = records()
+
+    Post.create({ data })
+    PlainPost.create({ data })
+
+    compare(query => query.orderBy('created_at'))
+    compare(query => query.orderBy('created_at', 'desc'))
+    compare(query => query.orderBy('votes', 'desc'))
+
+    expect(Indexer.indexes.get(store.state.entities.posts).sorted.created_at).toBeDefined()
+  })
+
+  it('can stream records up to the limit and offset', () => {
+    createStore([{ model: Post }, { model: PlainPost }])
+
+    const data = records()
+
+    Post.create({ data })
+    PlainPost.create({ data })
+
+    compare(query => query.orderBy('created_at').limit(5))
+    compare(query => query.orderBy('created_at', 'desc').offset(3).limit(7))
+    compare(query => query.orderBy('votes').offset(28).limit(5))
+    compare(query => query.orderBy('votes').offset(40))
+    compare(query => query.orderBy('votes').limit(0))
+  })
+
+  it('does not sort the records when streaming them from the sorted index', () => {
+    createStore([{ model: Post }, { model: PlainPost }])
+
+    const data = records()
+
+    Post.create({ data })
+    PlainPost.create({ data })
+
+    const spy = jest.spyOn(Utils, 'orderBy')
+
+    Post.query().orderBy('created_at').limit(5).get()
+    expect(spy).not.toHaveBeenCalled()
+
+    Post.query().orderBy('created_at').orderBy('id').limit(5).get()
+    expect(spy).toHaveBeenCalledTimes(1)
+
+    spy.mockRestore()
+  })
+
+  it('can filter records by range where clauses through the sorted index', () => {
+    createStore([{ model: Post }, { model: PlainPost }])
+
+    const data = records()
+
+    Post.create({ data })
+    PlainPost.create({ data })
+
+    compare(query => query.where('created_at', '>', 3).orderBy('created_at').limit(6))
+    compare(query => query.where('created_at', '<=', 3).orderBy('created_at', 'desc'))
+    compare(query => query.where('created_at', 'between', [2, 5]).where('votes', '>=', 2).orderBy('created_at'))
+    compare(query => query.where('created_at', 4).orderBy('votes'))
+    compare(query => query.where('votes', '<', 2).orderBy('id'))
+    compare(query => query.where('votes', '>', 10).orderBy('created_at'))
+  })
+
+  it('applies the other where clauses while streaming', () => {
+    createStore([{ model: Post }, { model: PlainPost }])
+
+    const data = records()
+
+    Post.create({ data })
+    PlainPost.create({ data })
+
+    compare(query => query.where('title', value => value.endsWith('1')).orderBy('created_at').limit(2))
+    compare(query => query.where('created_at', '>', 5).orWhere('votes', 0).orderBy('created_at').limit(10))
+    compare(query => query.whereIdIn([3, 1, 2, 10]).orderBy('created_at', 'desc'))
+  })
+
+  it('keeps the sorted index in sync on insert, update and delete', async () => {
+    createStore([{ model: Post }, { model: PlainPost }])
+
+    const data = records()
+
+    Post.create({ data })
+    PlainPost.create({ data })
+
+    compare(query => query.orderBy('created_at').limit(10))
+
+    const changes = async (model) => {
+      await model.insert({ data: { id: 31, created_at: 0 } })
+      await model.update({ where: 5, data: { created_at: 9 } })
+      await model.update({ where: post => post.id === 6, data (post) { post.created_at = -1 } })
+      await model.delete(1)
+    }
+
+    await changes(Post)
+    await changes(PlainPost)
+
+    compare(query => query.orderBy('created_at').limit(10))
+    compare(query => query.orderBy('created_at', 'desc').limit(10))
+
+    const many = []
+
+    for (let i = 100; i < 250; i++) {
+      many.push({ id: i, created_at: i % 3 })
+    }
+
+    await Post.insert({ data: many })
+    await PlainPost.insert({ data: many })
+
+    compare(query => query.orderBy('created_at').offset(5).limit(20))
+  })
+
+  it('keeps the order of non integer ids', () => {
+    createStore([{ model: Post }, { model: PlainPost }])
+
+    const data = [
+      { id: 'b', created_at: 1 },
+      { id: 'a', created_at: 1 },
+      { id: 2, created_at: 1 },
+      { id: 'c', created_at: 0 },
+      { id: 1, created_at: 1 }
+    ]
+
+    Post.create({ data })
+    PlainPost.create({ data })
+
+    compare(query => query.orderBy('created_at'))
+    compare(query => query.orderBy('created_at', 'desc'))
+  })
+
+  it('falls back to sorting when the values can not be sorted by the index', () => {
+    createStore([{ model: Post }, { model: PlainPost }])
+
+    const data = [
+      { id: 1, created_at: 2 },
+      { id: 2, created_at: null },
+      { id: 3, created_at: '1' },
+      { id: 4, created_at: 1 }
+    ]
+
+    Post.create({ data })
+    PlainPost.create({ data })
+
+    compare(query => query.orderBy('created_at'))
+    compare(query => query.orderBy('created_at', 'desc').limit(2))
+    compare(query => query.where('created_at', '>', 1).orderBy('created_at'))
+  })
+})
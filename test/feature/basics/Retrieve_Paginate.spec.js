@@ -0,0 +1,334 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+import Query from 'app/query/Query'
+
+describe('Feature – Retrieve – Paginate', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        age: this.attr(null),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null)
+      }
+    }
+  }
+
+  describe('paginate', () => {
+    it('can retrieve records by page', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const result = User.query().orderBy('age').paginate({ perPage: 2, page: 2 })
+
+      expect(result.data.map(record => record.id)).toEqual([1, 3])
+      expect(result.total).toBe(5)
+      expect(result.perPage).toBe(2)
+      expect(result.page).toBe(2)
+      expect(result.lastPage).toBe(3)
+    })
+
+    it('retrieves the first page by default', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const result = User.query().where('age', '>', 20).paginate({ perPage: 10 })
+
+      expect(result.data.map(record => record.id)).toEqual([1, 3, 4])
+      expect(result.total).toBe(3)
+      expect(result.lastPage).toBe(1)
+    })
+
+    it('returns empty data for a page out of range', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const result = User.query().paginate({ perPage: 2, page: 4 })
+
+      expect(result.data).toEqual([])
+      expect(result.total).toBe(5)
+      expect(result.lastPage).toBe(3)
+    })
+
+    it('eager loads relations only for the page', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const result = User.query().with('posts').paginate({ perPage: 1, page: 5 })
+
+      expect(result.data[0].id).toBe(5)
+      expect(result.data[0].posts.map(record => record.id)).toEqual([2])
+    })
+
+    it('leaves the query untouched', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const query = User.query().orderBy('age').limit(4)
+
+      query.paginate({ perPage: 2, page: 2 })
+
+      expect(query.offsetNumber).toBe(0)
+      expect(query.limitNumber).toBe(4)
+      expect(query.get().map(record => record.id)).toEqual([2, 5, 1, 3])
+    })
+
+    it('passes only the page to the `afterLimit` hooks', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const received = []
+
+      const hookId = Query.on('afterLimit', (records) => {
+        received.push(records.map(record => record.id))
+
+        return records
+      })
+
+      User.query().paginate({ perPage: 2, page: 2 })
+      User.query().cursor({ perPage: 2 })
+
+      Query.off(hookId)
+
+      expect(received).toEqual([[3, 4], [1, 2]])
+    })
+
+    it('throws an error for invalid options', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      expect(() => User.query().paginate({ perPage: 0 })).toThrowError('The `perPage` option must be a positive integer.')
+      expect(() => User.query().paginate({ perPage: 2, page: 1.5 })).toThrowError('The `page` option must be a positive integer.')
+    })
+  })
+
+  describe('cursor', () => {
+    it('can retrieve records after the cursor ordered by the primary key', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const first = User.query().cursor({ perPage: 2 })
+
+      expect(first.data.map(record => record.id)).toEqual([1, 2])
+      expect(first.next).toEqual({ id: 2 })
+
+      const second = User.query().cursor({ after: first.next, perPage: 2 })
+
+      expect(second.data.map(record => record.id)).toEqual([3, 4])
+
+      const third = User.query().cursor({ after: second.next, perPage: 2 })
+
+      expect(third.data.map(record => record.id)).toEqual([5])
+      expect(third.next).toBe(null)
+    })
+
+    it('can retrieve records after the cursor ordered by the orders', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const first = User.query().orderBy('age', 'desc').cursor({ perPage: 2 })
+
+      expect(first.data.map(record => record.id)).toEqual([4, 1])
+      expect(first.next).toEqual({ age: 30, id: 1 })
+
+      const second = User.query().orderBy('age', 'desc').cursor({ after: first.next, perPage: 2 })
+
+      expect(second.data.map(record => record.id)).toEqual([3, 2])
+
+      const third = User.query().orderBy('age', 'desc').cursor({ after: second.next, perPage: 2 })
+
+      expect(third.data.map(record => record.id)).toEqual([5])
+      expect(third.next).toBe(null)
+    })
+
+    it('does not shift pages when records are inserted before the cursor', async () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const first = User.query().orderBy('age').cursor({ perPage: 2 })
+
+      expect(first.data.map(record => record.id)).toEqual([2, 5])
+
+      await User.insert({ data: { id: 6, name: 'F', age: 10 } })
+
+      const second = User.query().orderBy('age').cursor({ after: first.next, perPage: 2 })
+
+      expect(second.data.map(record => record.id)).toEqual([1, 3])
+    })
+
+    it('finds the cursor by the `nulls` and `locale` options of the orders', async () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      await User.insert({ data: [{ id: 6, name: 'a', age: null }, { id: 7, name: 'b', age: null }] })
+
+      const query = () => User.query().orderBy('age', 'asc', { nulls: 'first' })
+
+      const first = query().cursor({ perPage: 3 })
+
+      expect(first.data.map(record => record.id)).toEqual([6, 7, 2])
+
+      const second = query().cursor({ after: first.next, perPage: 3 })
+
+      expect(second.data.map(record => record.id)).toEqual([5, 1, 3])
+
+      const byName = () => User.query().orderBy('name', 'asc', { locale: 'en' })
+
+      const page = byName().cursor({ after: byName().cursor({ perPage: 3 }).next, perPage: 3 })
+
+      expect(page.data.map(record => record.id)).toEqual([2, 3, 4])
+    })
+
+    it('leaves the orders of the query untouched', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const query = User.query().orderBy('age', 'desc')
+
+      query.cursor({ perPage: 2 })
+
+      expect(query.orders).toEqual([{ field: 'age', direction: 'desc' }])
+    })
+
+    it('accepts a record as the cursor', () => {
+      createStore([{ model: User }, { model: Post }])
+
+      User.create({
+        data: [
+          { id: 1, name: 'A', age: 30, posts: [{ id: 1 }] },
+          { id: 2, name: 'B', age: 20 },
+          { id: 3, name: 'C', age: 30 },
+          { id: 4, name: 'D', age: 40 },
+          { id: 5, name: 'E', age: 20, posts: [{ id: 2 }] }
+        ]
+      })
+
+      const user = User.find(3)
+
+      const result = User.query().orderBy('age').cursor({ after: user, perPage: 10 })
+
+      expect(result.data.map(record => record.id)).toEqual([4])
+    })
+  })
+})
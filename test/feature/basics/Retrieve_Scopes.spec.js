@@ -0,0 +1,149 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Retrieve – Scopes', () => {
+  let tenant = 1
+
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        tenant_id: this.attr(null),
+        name: this.attr(''),
+        active: this.attr(true),
+        age: this.attr(0),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+
+    static scopes () {
+      return {
+        active: (query) => { query.where('active', true) },
+        olderThan: (query, age) => { query.where('age', '>', age) }
+      }
+    }
+
+    static globalScopes () {
+      return {
+        tenant: (query) => { query.where('tenant_id', tenant) }
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        tenant_id: this.attr(null),
+        title: this.attr('')
+      }
+    }
+
+    static globalScopes () {
+      return {
+        tenant: (query) => { query.where('tenant_id', tenant) },
+        latest: (query) => { query.orderBy('id', 'desc') }
+      }
+    }
+  }
+
+  beforeEach(() => {
+    tenant = 1
+
+    createStore([{ model: User }, { model: Post }])
+
+    User.insert({
+      data: [
+        { id: 1, tenant_id: 1, name: 'John', age: 30, posts: [{ id: 1, tenant_id: 1 }, { id: 2, tenant_id: 2 }, { id: 3, tenant_id: 1 }] },
+        { id: 2, tenant_id: 1, name: 'Jane', age: 20, active: false },
+        { id: 3, tenant_id: 1, name: 'Andy', age: 40 },
+        { id: 4, tenant_id: 2, name: 'Roger', age: 50 }
+      ]
+    })
+  })
+
+  it('can apply the local scopes', () => {
+    expect(User.query().active().get().map(user => user.id)).toEqual([1, 3])
+    expect(User.query().active().olderThan(35).get().map(user => user.id)).toEqual([3])
+    expect(User.query().where('age', '<', 35).active().get().map(user => user.id)).toEqual([1])
+  })
+
+  it('applies the global scopes to every query', () => {
+    expect(User.all().map(user => user.id)).toEqual([1, 2, 3])
+    expect(User.find(4)).toBe(null)
+    expect(User.query().count()).toBe(3)
+
+    tenant = 2
+
+    expect(User.all().map(user => user.id)).toEqual([4])
+  })
+
+  it('does not let the "or" clauses of the query bypass the global scopes', () => {
+    const users = User.query().where('name', 'John').orWhere('name', 'Roger').get()
+
+    expect(users.map(user => user.id)).toEqual([1])
+  })
+
+  it('can remove the global scopes', () => {
+    expect(User.query().withoutGlobalScope('tenant').get().map(user => user.id)).toEqual([1, 2, 3, 4])
+    expect(Post.query().withoutGlobalScope('latest').get().map(post => post.id)).toEqual([1, 3])
+    expect(Post.query().withoutGlobalScopes(['tenant']).get().map(post => post.id)).toEqual([3, 2, 1])
+    expect(Post.query().withoutGlobalScopes().get().map(post => post.id)).toEqual([1, 2, 3])
+  })
+
+  it('can remove the global scopes on the primary key', () => {
+    class Tag extends Model {
+      static entity = 'tags'
+
+      static fields () {
+        return { id: this.attr(null) }
+      }
+
+      static globalScopes () {
+        return { featured: (query) => { query.whereIdIn([1, 2]) } }
+      }
+    }
+
+    createStore([{ model: Tag }])
+
+    Tag.insert({ data: [{ id: 1 }, { id: 2 }, { id: 3 }] })
+
+    expect(Tag.all().map(tag => tag.id)).toEqual([1, 2])
+    expect(Tag.query().whereId(2).get().map(tag => tag.id)).toEqual([2])
+    expect(Tag.query().withoutGlobalScope('featured').get().map(tag => tag.id)).toEqual([1, 2, 3])
+    expect(Tag.query().withoutGlobalScopes().whereId(3).get().map(tag => tag.id)).toEqual([3])
+  })
+
+  it('applies the global scopes to the relationships', () => {
+    const user = User.query().with('posts').find(1)
+
+    expect(user.posts.map(post => post.id)).toEqual([3, 1])
+
+    const unscoped = User.query().with('posts', query => query.withoutGlobalScopes()).find(1)
+
+    expect(unscoped.posts.map(post => post.id)).toEqual([1, 2, 3])
+  })
+
+  it('throws when the scope conflicts with the query method', () => {
+    class Video extends Model {
+      static entity = 'videos'
+
+      static fields () {
+        return { id: this.attr(null) }
+      }
+
+      static scopes () {
+        return { where: () => {} }
+      }
+    }
+
+    createStore([{ model: Video }])
+
+    expect(() => Video.query()).toThrow()
+  })
+})
@@ -0,0 +1,182 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Retrieve – Where Groups', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        role: this.attr(''),
+        age: this.attr(null),
+        active: this.attr(false)
+      }
+    }
+  }
+
+  it('evaluates "and" before "or"', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', role: 'admin', age: 20, active: true },
+        { id: 2, name: 'Jane', role: 'user', age: 25, active: true },
+        { id: 3, name: 'Johnny', role: 'user', age: 30, active: false },
+        { id: 4, name: 'Ann', role: 'admin', age: 35, active: false }
+      ]
+    })
+
+    // role = admin OR (age > 20 AND active = true)
+    const users = User.query()
+      .where('role', 'admin')
+      .orWhere('age', '>', 20)
+      .where('active', true)
+      .get()
+
+    expect(users.map(user => user.id)).toEqual([1, 2, 4])
+  })
+
+  it('can group where clauses', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', role: 'admin', age: 20, active: true },
+        { id: 2, name: 'Jane', role: 'user', age: 25, active: true },
+        { id: 3, name: 'Johnny', role: 'user', age: 30, active: false },
+        { id: 4, name: 'Ann', role: 'admin', age: 35, active: false }
+      ]
+    })
+
+    // active = true AND (role = admin OR age > 20)
+    const users = User.query()
+      .where('active', true)
+      .whereGroup((query) => {
+        query.where('role', 'admin').orWhere('age', '>', 20)
+      })
+      .get()
+
+    expect(users.map(user => user.id)).toEqual([1, 2])
+  })
+
+  it('can group where clauses with "or"', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', role: 'admin', age: 20, active: true },
+        { id: 2, name: 'Jane', role: 'user', age: 25, active: true },
+        { id: 3, name: 'Johnny', role: 'user', age: 30, active: false },
+        { id: 4, name: 'Ann', role: 'admin', age: 35, active: false }
+      ]
+    })
+
+    // role = user AND active = true OR (role = admin AND age > 30)
+    const users = User.query()
+      .where('role', 'user')
+      .where('active', true)
+      .orWhereGroup((query) => {
+        query.where('role', 'admin').where('age', '>', 30)
+      })
+      .get()
+
+    expect(users.map(user => user.id)).toEqual([2, 4])
+  })
+
+  it('can nest groups', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', role: 'admin', age: 20, active: true },
+        { id: 2, name: 'Jane', role: 'user', age: 25, active: true },
+        { id: 3, name: 'Johnny', role: 'user', age: 30, active: false },
+        { id: 4, name: 'Ann', role: 'admin', age: 35, active: false }
+      ]
+    })
+
+    // active = false AND (name like 'Jo%' OR (role = admin AND age >= 35))
+    const users = User.query()
+      .where('active', false)
+      .whereGroup((query) => {
+        query.where('name', 'like', 'Jo%').orWhereGroup((q) => {
+          q.where('role', 'admin').where('age', '>=', 35)
+        })
+      })
+      .get()
+
+    expect(users.map(user => user.id)).toEqual([3, 4])
+  })
+
+  it('can combine groups with the primary key lookup', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', role: 'admin', age: 20, active: true },
+        { id: 2, name: 'Jane', role: 'user', age: 25, active: true },
+        { id: 3, name: 'Johnny', role: 'user', age: 30, active: false },
+        { id: 4, name: 'Ann', role: 'admin', age: 35, active: false }
+      ]
+    })
+
+    const users = User.query()
+      .whereIdIn([1, 2, 3])
+      .whereGroup((query) => {
+        query.where('age', 20).orWhere('age', 30)
+      })
+      .get()
+
+    expect(users.map(user => user.id)).toEqual([1, 3])
+  })
+
+  it('ignores empty groups', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', role: 'admin', age: 20, active: true },
+        { id: 2, name: 'Jane', role: 'user', age: 25, active: true },
+        { id: 3, name: 'Johnny', role: 'user', age: 30, active: false },
+        { id: 4, name: 'Ann', role: 'admin', age: 35, active: false }
+      ]
+    })
+
+    const query = User.query().where('active', true).whereGroup(() => {})
+
+    expect(query.wheres.length).toBe(1)
+    expect(query.get().map(user => user.id)).toEqual([1, 2])
+  })
+
+  it('builds the where clauses as a tree', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', role: 'admin', age: 20, active: true },
+        { id: 2, name: 'Jane', role: 'user', age: 25, active: true },
+        { id: 3, name: 'Johnny', role: 'user', age: 30, active: false },
+        { id: 4, name: 'Ann', role: 'admin', age: 35, active: false }
+      ]
+    })
+
+    const query = User.query()
+      .where('active', true)
+      .whereGroup((q) => {
+        q.where('role', 'admin').orWhere('age', '>', 20)
+      })
+
+    expect(query.wheres).toEqual([
+      { field: 'active', value: true, boolean: 'and' },
+      {
+        wheres: [
+          { field: 'role', value: 'admin', boolean: 'and' },
+          { field: 'age', operator: '>', value: 20, boolean: 'or' }
+        ],
+        boolean: 'and'
+      }
+    ])
+  })
+})
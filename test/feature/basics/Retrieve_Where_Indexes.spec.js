@@ -0,0 +1,207 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+import Indexer from 'app/query/indexes/Indexer'
+
+describe('Feature – Retrieve – Where – Indexes', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static indexes () {
+      return ['user_id']
+    }
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        status: this.string('draft').index(),
+        title: this.string('')
+      }
+    }
+  }
+
+  it('collects indexed fields from `indexes` and the `index` modifier', () => {
+    expect(Post.getIndexedFields()).toEqual(['user_id', 'status'])
+    expect(User.getIndexedFields()).toEqual([])
+  })
+
+  it('can look up records by indexed equality where clauses', () => {
+    const store = createStore([{ model: User }, { model: Post }])
+
+    store.dispatch('entities/posts/create', {
+      data: [
+        { id: 3, user_id: 1, status: 'published', title: 'Post 3' },
+        { id: 1, user_id: 1, status: 'draft', title: 'Post 1' },
+        { id: 2, user_id: 2, status: 'published', title: 'Post 2' },
+        { id: 4, user_id: 3, status: 'published', title: 'Post 4' }
+      ]
+    })
+
+    expect(Post.query().where('user_id', 1).get().map(record => record.id)).toEqual([1, 3])
+    expect(Post.query().where('user_id', '=', 2).get().map(record => record.id)).toEqual([2])
+    expect(Post.query().where('user_id', 9).get().map(record => record.id)).toEqual([])
+
+    expect(Indexer.indexes.has(store.state.entities.posts)).toBe(true)
+  })
+
+  it('can look up records by indexed `in` where clauses', () => {
+    const store = createStore([{ model: User }, { model: Post }])
+
+    store.dispatch('entities/posts/create', {
+      data: [
+        { id: 3, user_id: 1, status: 'published', title: 'Post 3' },
+        { id: 1, user_id: 1, status: 'draft', title: 'Post 1' },
+        { id: 2, user_id: 2, status: 'published', title: 'Post 2' },
+        { id: 4, user_id: 3, status: 'published', title: 'Post 4' }
+      ]
+    })
+
+    expect(Post.query().where('user_id', [1, 3]).get().map(record => record.id)).toEqual([1, 3, 4])
+    expect(Post.query().where('user_id', 'in', [2, 3]).get().map(record => record.id)).toEqual([2, 4])
+  })
+
+  it('can combine indexed where clauses with other conditions', () => {
+    const store = createStore([{ model: User }, { model: Post }])
+
+    store.dispatch('entities/posts/create', {
+      data: [
+        { id: 3, user_id: 1, status: 'published', title: 'Post 3' },
+        { id: 1, user_id: 1, status: 'draft', title: 'Post 1' },
+        { id: 2, user_id: 2, status: 'published', title: 'Post 2' },
+        { id: 4, user_id: 3, status: 'published', title: 'Post 4' }
+      ]
+    })
+
+    const posts = Post.query()
+      .where('user_id', [1, 2])
+      .where('status', 'published')
+      .where('title', value => value !== 'Post 2')
+      .whereIdIn([2, 3])
+      .get()
+
+    expect(posts.map(record => record.id)).toEqual([3])
+  })
+
+  it('falls back to a full scan when where clauses are joined by `or`', () => {
+    const store = createStore([{ model: User }, { model: Post }])
+
+    store.dispatch('entities/posts/create', {
+      data: [
+        { id: 3, user_id: 1, status: 'published', title: 'Post 3' },
+        { id: 1, user_id: 1, status: 'draft', title: 'Post 1' },
+        { id: 2, user_id: 2, status: 'published', title: 'Post 2' },
+        { id: 4, user_id: 3, status: 'published', title: 'Post 4' }
+      ]
+    })
+
+    const posts = Post.query().where('user_id', 1).orWhere('status', 'published').get()
+
+    expect(posts.map(record => record.id)).toEqual([1, 2, 3, 4])
+  })
+
+  it('does not use indexes for other operators', () => {
+    const store = createStore([{ model: User }, { model: Post }])
+
+    store.dispatch('entities/posts/create', {
+      data: [
+        { id: 3, user_id: 1, status: 'published', title: 'Post 3' },
+        { id: 1, user_id: 1, status: 'draft', title: 'Post 1' },
+        { id: 2, user_id: 2, status: 'published', title: 'Post 2' },
+        { id: 4, user_id: 3, status: 'published', title: 'Post 4' }
+      ]
+    })
+
+    expect(Post.query().where('user_id', '>', 1).get().map(record => record.id)).toEqual([2, 4])
+    expect(Post.query().where('user_id', '!=', 1).get().map(record => record.id)).toEqual([2, 4])
+  })
+
+  it('keeps indexes in sync on insert, update and delete', async () => {
+    const store = createStore([{ model: User }, { model: Post }])
+
+    store.dispatch('entities/posts/create', {
+      data: [
+        { id: 3, user_id: 1, status: 'published', title: 'Post 3' },
+        { id: 1, user_id: 1, status: 'draft', title: 'Post 1' },
+        { id: 2, user_id: 2, status: 'published', title: 'Post 2' },
+        { id: 4, user_id: 3, status: 'published', title: 'Post 4' }
+      ]
+    })
+
+    expect(Post.query().where('user_id', 1).get().map(record => record.id)).toEqual([1, 3])
+
+    await Post.insert({ data: { id: 5, user_id: 1 } })
+    expect(Post.query().where('user_id', 1).get().map(record => record.id)).toEqual([1, 3, 5])
+
+    await Post.update({ where: 3, data: { user_id: 2 } })
+    expect(Post.query().where('user_id', 1).get().map(record => record.id)).toEqual([1, 5])
+    expect(Post.query().where('user_id', 2).get().map(record => record.id)).toEqual([2, 3])
+
+    await Post.update({ where: post => post.id === 5, data (post) { post.user_id = 3 } })
+    expect(Post.query().where('user_id', 1).get().map(record => record.id)).toEqual([1])
+    expect(Post.query().where('user_id', 3).get().map(record => record.id)).toEqual([4, 5])
+
+    await Post.delete(4)
+    expect(Post.query().where('user_id', 3).get().map(record => record.id)).toEqual([5])
+
+    await Post.create({ data: { id: 6, user_id: 3 } })
+    expect(Post.query().where('user_id', 3).get().map(record => record.id)).toEqual([6])
+    expect(Post.query().where('user_id', 1).get().map(record => record.id)).toEqual([])
+
+    await Post.deleteAll()
+    expect(Post.query().where('user_id', 3).get().map(record => record.id)).toEqual([])
+  })
+
+  it('rebuilds indexes after the state gets mutated through `commit`', () => {
+    const store = createStore([{ model: User }, { model: Post }])
+
+    store.dispatch('entities/posts/create', {
+      data: [
+        { id: 3, user_id: 1, status: 'published', title: 'Post 3' },
+        { id: 1, user_id: 1, status: 'draft', title: 'Post 1' },
+        { id: 2, user_id: 2, status: 'published', title: 'Post 2' },
+        { id: 4, user_id: 3, status: 'published', title: 'Post 4' }
+      ]
+    })
+
+    expect(Post.query().where('user_id', 1).get().map(record => record.id)).toEqual([1, 3])
+
+    Post.commit((state) => {
+      state.data[1].user_id = 2
+    })
+
+    expect(Post.query().where('user_id', 1).get().map(record => record.id)).toEqual([3])
+    expect(Post.query().where('user_id', 2).get().map(record => record.id)).toEqual([1, 2])
+  })
+
+  it('uses indexes when loading relations', () => {
+    const store = createStore([{ model: User }, { model: Post }])
+
+    store.dispatch('entities/posts/create', {
+      data: [
+        { id: 3, user_id: 1, status: 'published', title: 'Post 3' },
+        { id: 1, user_id: 1, status: 'draft', title: 'Post 1' },
+        { id: 2, user_id: 2, status: 'published', title: 'Post 2' },
+        { id: 4, user_id: 3, status: 'published', title: 'Post 4' }
+      ]
+    })
+
+    User.insert({ data: [{ id: 1 }, { id: 2 }] })
+
+    const users = User.query().with('posts').get()
+
+    expect(users[0].posts.map(record => record.id)).toEqual([1, 3])
+    expect(users[1].posts.map(record => record.id)).toEqual([2])
+  })
+})
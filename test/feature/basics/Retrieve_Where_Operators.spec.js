@@ -0,0 +1,153 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Retrieve – Where Operators', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        age: this.attr(null)
+      }
+    }
+  }
+
+  it('can filter records by comparison operators', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', age: 20 },
+        { id: 2, name: 'Jane', age: 25 },
+        { id: 3, name: 'Johnny', age: 30 },
+        { id: 4, name: 'Ann', age: null }
+      ]
+    })
+
+    expect(User.query().where('age', '>', 20).get().map(user => user.id)).toEqual([2, 3])
+    expect(User.query().where('age', '>=', 25).get().map(user => user.id)).toEqual([2, 3])
+    expect(User.query().where('age', '<', 25).get().map(user => user.id)).toEqual([1])
+    expect(User.query().where('age', '<=', 25).get().map(user => user.id)).toEqual([1, 2])
+    expect(User.query().where('age', '=', 30).get().map(user => user.id)).toEqual([3])
+    expect(User.query().where('age', '!=', 30).get().map(user => user.id)).toEqual([1, 2, 4])
+  })
+
+  it('can filter records by `like` and `ilike` patterns', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', age: 20 },
+        { id: 2, name: 'Jane', age: 25 },
+        { id: 3, name: 'Johnny', age: 30 },
+        { id: 4, name: 'Ann', age: null }
+      ]
+    })
+
+    expect(User.query().where('name', 'like', 'Jo%').get().map(user => user.id)).toEqual([1, 3])
+    expect(User.query().where('name', 'like', 'J_ne').get().map(user => user.id)).toEqual([2])
+    expect(User.query().where('name', 'like', 'jo%').get().map(user => user.id)).toEqual([])
+    expect(User.query().where('name', 'ilike', 'jo%').get().map(user => user.id)).toEqual([1, 3])
+  })
+
+  it('can filter records by `between`, `in` and `notIn`', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', age: 20 },
+        { id: 2, name: 'Jane', age: 25 },
+        { id: 3, name: 'Johnny', age: 30 },
+        { id: 4, name: 'Ann', age: null }
+      ]
+    })
+
+    expect(User.query().where('age', 'between', [21, 30]).get().map(user => user.id)).toEqual([2, 3])
+    expect(User.query().where('age', 'in', [20, 30]).get().map(user => user.id)).toEqual([1, 3])
+    expect(User.query().where('age', 'notIn', [20, 30]).get().map(user => user.id)).toEqual([2, 4])
+  })
+
+  it('can filter records by `null` and `notNull`', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', age: 20 },
+        { id: 2, name: 'Jane', age: 25 },
+        { id: 3, name: 'Johnny', age: 30 },
+        { id: 4, name: 'Ann', age: null }
+      ]
+    })
+
+    expect(User.query().whereNull('age').get().map(user => user.id)).toEqual([4])
+    expect(User.query().whereNotNull('age').get().map(user => user.id)).toEqual([1, 2, 3])
+  })
+
+  it('can combine operators with `orWhere`', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', age: 20 },
+        { id: 2, name: 'Jane', age: 25 },
+        { id: 3, name: 'Johnny', age: 30 },
+        { id: 4, name: 'Ann', age: null }
+      ]
+    })
+
+    const users = User.query().where('age', '>', 25).orWhere('name', 'like', '%nn').get()
+
+    expect(users.map(user => user.id)).toEqual([3, 4])
+  })
+
+  it('can use operators on the primary key', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', age: 20 },
+        { id: 2, name: 'Jane', age: 25 },
+        { id: 3, name: 'Johnny', age: 30 },
+        { id: 4, name: 'Ann', age: null }
+      ]
+    })
+
+    expect(User.query().where('id', '>', 2).get().map(user => user.id)).toEqual([3, 4])
+    expect(User.query().where('id', 'in', [1, 2]).where('age', '>', 20).get().map(user => user.id)).toEqual([2])
+  })
+
+  it('stores the operator on the where clause', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', age: 20 },
+        { id: 2, name: 'Jane', age: 25 },
+        { id: 3, name: 'Johnny', age: 30 },
+        { id: 4, name: 'Ann', age: null }
+      ]
+    })
+
+    const query = User.query().where('age', '>', 20)
+
+    expect(query.wheres).toEqual([{ field: 'age', operator: '>', value: 20, boolean: 'and' }])
+  })
+
+  it('throws an error when the operator is not supported', () => {
+    const store = createStore([{ model: User }])
+
+    store.dispatch('entities/users/create', {
+      data: [
+        { id: 1, name: 'John', age: 20 },
+        { id: 2, name: 'Jane', age: 25 },
+        { id: 3, name: 'Johnny', age: 30 },
+        { id: 4, name: 'Ann', age: null }
+      ]
+    })
+
+    expect(() => User.query().where('age', '~', 20)).toThrowError('not supported')
+    expect(() => User.query().where('age', 'between', 20)).toThrowError('array of two values')
+  })
+})
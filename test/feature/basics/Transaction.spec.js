@@ -0,0 +1,178 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Transaction', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        title: this.attr('')
+      }
+    }
+  }
+
+  let store
+
+  beforeEach(() => {
+    store = createStore([{ model: User }, { model: Post }])
+
+    User.insert({ data: { id: 1, name: 'John', posts: [{ id: 1, title: 'A' }] } })
+  })
+
+  afterEach(() => {
+    delete Post.afterCreate
+    delete Post.beforeUpdate
+  })
+
+  it('commits the changes across entities as a single mutation', async () => {
+    const mutations = []
+
+    store.subscribe(mutation => mutations.push(mutation.type))
+
+    const result = await User.database().transaction(async () => {
+      await User.insert({ data: { id: 2, name: 'Jane' } })
+      await Post.update({ where: 1, data: { title: 'B' } })
+      await User.delete(1)
+
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(mutations).toEqual(['entities/$transaction'])
+    expect(User.all().map(user => user.id)).toEqual([2])
+    expect(Post.find(1).title).toBe('B')
+  })
+
+  it('reads the changes made during the transaction', async () => {
+    await User.database().transaction(async () => {
+      await Post.insert({ data: { id: 2, user_id: 1, title: 'C' } })
+
+      expect(User.query().with('posts').find(1).posts.length).toBe(2)
+      expect(store.state.entities.posts.data[2]).toBe(undefined)
+    })
+
+    expect(store.state.entities.posts.data[2].title).toBe('C')
+  })
+
+  it('rolls back all changes when the callback throws', async () => {
+    const error = new Error('Failed')
+
+    await expect(User.database().transaction(async () => {
+      await User.insert({ data: { id: 2, name: 'Jane' } })
+      await Post.update({ where: 1, data: { title: 'B' } })
+
+      throw error
+    })).rejects.toBe(error)
+
+    expect(User.all().map(user => user.id)).toEqual([1])
+    expect(Post.find(1).title).toBe('A')
+  })
+
+  it('rolls back the changes made by the update closures', async () => {
+    const user = store.state.entities.users.data[1]
+
+    await expect(User.database().transaction(async () => {
+      await User.update({ where: 1, data: (user) => { user.name = 'Johnny' } })
+
+      expect(User.find(1).name).toBe('Johnny')
+
+      throw new Error('Failed')
+    })).rejects.toThrow('Failed')
+
+    expect(User.find(1).name).toBe('John')
+    expect(store.state.entities.users.data[1]).toBe(user)
+  })
+
+  it('rolls back all changes when a hook throws', async () => {
+    Post.beforeUpdate = () => { throw new Error('Invalid') }
+
+    await expect(User.database().transaction(async () => {
+      await User.insert({ data: { id: 2, name: 'Jane' } })
+      await Post.update({ where: 1, data: { title: 'B' } })
+    })).rejects.toThrow('Invalid')
+
+    expect(User.find(2)).toBe(null)
+  })
+
+  it('calls the after hooks only after the changes were committed', async () => {
+    const calls = []
+
+    Post.afterCreate = (post) => {
+      calls.push([post.id, store.state.entities.posts.data[post.id] !== undefined])
+    }
+
+    await User.database().transaction(async () => {
+      await Post.insert({ data: { id: 2, title: 'C' } })
+
+      expect(calls).toEqual([])
+    })
+
+    expect(calls).toEqual([[2, true]])
+
+    await expect(User.database().transaction(async () => {
+      await Post.insert({ data: { id: 3, title: 'D' } })
+
+      throw new Error('Failed')
+    })).rejects.toThrow('Failed')
+
+    expect(calls).toEqual([[2, true]])
+  })
+
+  it('joins the outer transaction when nested', async () => {
+    await expect(User.database().transaction(async () => {
+      await User.database().transaction(async () => {
+        await User.insert({ data: { id: 2, name: 'Jane' } })
+      })
+
+      throw new Error('Failed')
+    })).rejects.toThrow('Failed')
+
+    expect(User.find(2)).toBe(null)
+  })
+
+  it('includes the changes made to the store while the callback is waiting', async () => {
+    let resume
+
+    const waiting = new Promise((resolve) => { resume = resolve })
+
+    const transaction = User.database().transaction(async () => {
+      await User.insert({ data: { id: 2, name: 'Jane' } })
+      await waiting
+
+      throw new Error('Failed')
+    })
+
+    await User.insert({ data: { id: 3, name: 'Andy' } })
+
+    expect(store.state.entities.users.data[3]).toBe(undefined)
+
+    resume()
+
+    await expect(transaction).rejects.toThrow('Failed')
+
+    expect(User.all().map(user => user.id)).toEqual([1])
+  })
+
+  it('does not allow changing the records in place inside the transaction', async () => {
+    await expect(User.database().transaction(() => {
+      User.commit(state => { state.data[1].name = 'Johnny' })
+    })).rejects.toThrow()
+
+    expect(User.find(1).name).toBe('John')
+  })
+})
@@ -0,0 +1,135 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Models – Computed', () => {
+  let evaluated = 0
+
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        first_name: this.string(''),
+        last_name: this.string(''),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+
+    static computed () {
+      return {
+        full_name: user => `${user.first_name} ${user.last_name}`,
+        initials: {
+          get () {
+            evaluated++
+
+            return `${this.first_name[0]}${this.last_name[0]}`
+          },
+          cache: true
+        }
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        title: this.string('')
+      }
+    }
+
+    static computed () {
+      return {
+        slug: post => post.title.toLowerCase().replace(/ /g, '-')
+      }
+    }
+  }
+
+  beforeEach(async () => {
+    evaluated = 0
+
+    createStore([{ model: User }, { model: Post }])
+
+    await User.insert({
+      data: [
+        { id: 1, first_name: 'John', last_name: 'Doe', posts: [{ id: 1, title: 'Hello World' }] },
+        { id: 2, first_name: 'Jane', last_name: 'Adams' }
+      ]
+    })
+  })
+
+  it('evaluates the computed properties lazily', () => {
+    const user = new User(User.find(1))
+
+    expect(user.full_name).toBe('John Doe')
+    expect(Object.keys(user)).not.toContain('full_name')
+
+    user.first_name = 'Johnny'
+
+    expect(user.full_name).toBe('Johnny Doe')
+  })
+
+  it('evaluates the cached computed properties once per instance', () => {
+    const user = new User({ id: 1, first_name: 'John', last_name: 'Doe' })
+
+    expect(user.initials).toBe('JD')
+    expect(user.initials).toBe('JD')
+    expect(evaluated).toBe(1)
+
+    user.$fill({ id: 1, first_name: 'Jane', last_name: 'Doe' })
+
+    expect(user.initials).toBe('JD')
+    expect(evaluated).toBe(2)
+  })
+
+  it('excludes the computed properties from the serialization by default', () => {
+    expect(User.find(2).$toJson()).toEqual({ id: 2, first_name: 'Jane', last_name: 'Adams', posts: [] })
+  })
+
+  it('can include the computed properties in the serialization', () => {
+    const user = User.query().with('posts').find(1)
+
+    expect(user.$toJson({ computed: true })).toEqual({
+      id: 1,
+      first_name: 'John',
+      last_name: 'Doe',
+      posts: [{ id: 1, user_id: 1, title: 'Hello World', slug: 'hello-world' }],
+      full_name: 'John Doe',
+      initials: 'JD'
+    })
+
+    expect(user.$toJson({ computed: ['full_name'] })).toEqual({
+      id: 1,
+      first_name: 'John',
+      last_name: 'Doe',
+      posts: [{ id: 1, user_id: 1, title: 'Hello World' }],
+      full_name: 'John Doe'
+    })
+  })
+
+  it('can filter and order the records by the computed properties', () => {
+    expect(User.query().where('full_name', 'Jane Adams').get().map(user => user.id)).toEqual([2])
+    expect(User.query().orderBy('full_name').get().map(user => user.id)).toEqual([2, 1])
+    expect(User.query().orderBy('full_name', 'desc').get().map(user => user.id)).toEqual([1, 2])
+  })
+
+  it('throws when the computed property conflicts with a field', () => {
+    class Account extends Model {
+      static entity = 'accounts'
+
+      static fields () {
+        return { id: this.attr(null), name: this.string('') }
+      }
+
+      static computed () {
+        return { name: () => 'name' }
+      }
+    }
+
+    expect(() => new Account()).toThrow()
+  })
+})
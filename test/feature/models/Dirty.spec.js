@@ -0,0 +1,155 @@
+import { createStore } from 'test/support/Helpers'
+import Utils from 'app/support/Utils'
+import Model from 'app/model/Model'
+
+describe('Feature – Models – Dirty', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.string(''),
+        age: this.number(0),
+        settings: this.attr({}),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null)
+      }
+    }
+  }
+
+  beforeEach(() => {
+    createStore([{ model: User }, { model: Post }])
+
+    User.insert({
+      data: { id: 1, name: 'John', age: 30, settings: { theme: 'dark' }, posts: [{ id: 1 }] }
+    })
+  })
+
+  it('is not dirty when just retrieved', () => {
+    const user = User.query().with('posts').find(1)
+
+    expect(user.$isDirty()).toBe(false)
+    expect(user.$getChanges()).toEqual({})
+  })
+
+  it('can tell which fields were changed', () => {
+    const user = new User(User.find(1))
+
+    user.name = 'Johnny'
+    user.settings = { theme: 'light' }
+
+    expect(user.$isDirty()).toBe(true)
+    expect(user.$isDirty('name')).toBe(true)
+    expect(user.$isDirty('settings')).toBe(true)
+    expect(user.$isDirty('age')).toBe(false)
+    expect(user.$getChanges()).toEqual({ name: 'Johnny', settings: { theme: 'light' } })
+  })
+
+  it('is not dirty when the field was changed back to the original value', () => {
+    const user = new User({ id: 1, name: 'John' })
+
+    user.name = 'Johnny'
+    user.name = 'John'
+
+    expect(user.$isDirty()).toBe(false)
+  })
+
+  it('tracks the changes of the records retrieved with the relationships', () => {
+    const user = User.query().with('posts').find(1)
+
+    user.name = 'Johnny'
+    user.settings = { theme: 'light' }
+
+    expect(user.$getChanges()).toEqual({ name: 'Johnny', settings: { theme: 'light' } })
+    expect(user.$getOriginal('settings')).toEqual({ theme: 'dark' })
+
+    user.$reset()
+
+    expect(user.name).toBe('John')
+    expect(user.$isDirty()).toBe(false)
+  })
+
+  it('does not copy the values of the records built by the query', () => {
+    const cloneDeep = jest.spyOn(Utils, 'cloneDeep')
+
+    User.insert({ data: { id: 2, name: 'Jane', settings: { theme: 'light' } } })
+    User.query().with('posts').get()
+
+    expect(cloneDeep).not.toHaveBeenCalled()
+
+    cloneDeep.mockRestore()
+  })
+
+  it('does not track the relationships', () => {
+    const user = User.query().with('posts').find(1)
+
+    user.posts = []
+
+    expect(user.$isDirty()).toBe(false)
+  })
+
+  it('can get the original values', () => {
+    const user = new User({ id: 1, name: 'John', age: 30 })
+
+    user.name = 'Johnny'
+
+    expect(user.$getOriginal('name')).toBe('John')
+    expect(user.$getOriginal()).toEqual({ id: 1, name: 'John', age: 30, settings: {} })
+  })
+
+  it('can reset the fields to the original values', () => {
+    const user = new User({ id: 1, name: 'John', settings: { theme: 'dark' } })
+
+    user.name = 'Johnny'
+    user.settings.theme = 'light'
+
+    user.$reset()
+
+    expect(user.name).toBe('John')
+    expect(user.settings).toEqual({ theme: 'dark' })
+    expect(user.$isDirty()).toBe(false)
+  })
+
+  it('saves only the changed fields of the retrieved record', async () => {
+    const user = new User(User.find(1))
+
+    User.update({ where: 1, data: { age: 31 } })
+
+    user.name = 'Johnny'
+
+    await user.$save()
+
+    const saved = User.find(1)
+
+    expect(saved.name).toBe('Johnny')
+    expect(saved.age).toBe(31)
+    expect(user.$isDirty()).toBe(false)
+  })
+
+  it('saves all fields of the new record', async () => {
+    const user = new User()
+
+    user.id = 2
+    user.name = 'Jane'
+    user.age = 20
+
+    await user.$save()
+
+    const saved = User.find(2)
+
+    expect(saved.name).toBe('Jane')
+    expect(saved.age).toBe(20)
+    expect(user.$isDirty()).toBe(false)
+  })
+})
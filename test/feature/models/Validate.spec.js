@@ -0,0 +1,154 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+import ValidationError from 'app/model/ValidationError'
+
+describe('Feature – Models – Validate', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.string('').required(),
+        email: this.string('').email(),
+        age: this.number(null).nullable().min(18).max(120),
+        code: this.string('').pattern(/^[A-Z]+$/, 'The code must be uppercase.'),
+        tags: this.attr([]).max(2),
+        posts: this.hasMany(Post, 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        title: this.string('').required().min(3)
+      }
+    }
+  }
+
+  beforeEach(() => {
+    createStore([{ model: User }, { model: Post }])
+  })
+
+  it('resolves to empty errors when the model is valid', async () => {
+    const user = new User({ id: 1, name: 'John', email: 'john@example.com', age: 30, code: 'ABC', tags: ['a'] })
+
+    expect(await user.$validate()).toEqual({})
+  })
+
+  it('resolves to the error messages keyed by the fields', async () => {
+    const user = new User({ id: 1, email: 'john', age: 10, code: 'abc', tags: ['a', 'b', 'c'] })
+
+    expect(await user.$validate()).toEqual({
+      name: ['The name field is required.'],
+      email: ['The email field must be a valid email address.'],
+      age: ['The age field must be at least 18.'],
+      code: ['The code must be uppercase.'],
+      tags: ['The tags field may not be greater than 2.']
+    })
+  })
+
+  it('skips the rules other than required for empty values', async () => {
+    const user = new User({ id: 1, name: 'John' })
+
+    expect(await user.$validate()).toEqual({})
+  })
+
+  it('can validate by custom and async rules', async () => {
+    class Account extends Model {
+      static entity = 'accounts'
+
+      static fields () {
+        return {
+          id: this.attr(null),
+          name: this.string('').rule(value => value !== 'admin' || 'The name is reserved.'),
+          slug: this.string('').rule(value => Promise.resolve(value !== 'taken'), key => `The ${key} is taken.`)
+        }
+      }
+    }
+
+    createStore([{ model: Account }])
+
+    const account = new Account({ id: 1, name: 'admin', slug: 'taken' })
+
+    expect(await account.$validate()).toEqual({
+      name: ['The name is reserved.'],
+      slug: ['The slug is taken.']
+    })
+
+    expect(() => account.$validateSync()).toThrow()
+  })
+
+  it('can validate synchronously', () => {
+    expect(new User({ id: 1 }).$validateSync()).toEqual({ name: ['The name field is required.'] })
+  })
+
+  it('rejects invalid records before persisting them with the validate option', async () => {
+    let error = null
+
+    try {
+      await User.insert({
+        data: [
+          { id: 1, name: 'John', posts: [{ id: 1, title: 'Hi' }] },
+          { id: 2, name: 'Jane' }
+        ],
+        validate: true
+      })
+    } catch (e) {
+      error = e
+    }
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error.errors).toEqual({
+      posts: { 1: { title: ['The title field must be at least 3.'] } }
+    })
+
+    expect(User.all().length).toBe(0)
+    expect(Post.all().length).toBe(0)
+  })
+
+  it('persists the records as usual when they are valid', async () => {
+    await User.insert({ data: { id: 1, name: 'John' }, validate: true })
+
+    expect(User.find(1).name).toBe('John')
+  })
+
+  it('validates the records to be updated merged with the existing ones', async () => {
+    await User.insert({ data: { id: 1, name: 'John' } })
+
+    await User.update({ data: { id: 1, age: 30 }, validate: true })
+
+    expect(User.find(1).age).toBe(30)
+
+    await expect(User.update({ data: { id: 1, name: '' }, validate: true })).rejects.toBeInstanceOf(ValidationError)
+
+    expect(User.find(1).name).toBe('John')
+  })
+
+  it('keeps the strict mode of the store working after a failed validation', async () => {
+    const store = createStore([{ model: User }, { model: Post }])
+
+    await expect(User.insert({ data: { id: 1, name: '' }, validate: true })).rejects.toBeInstanceOf(ValidationError)
+
+    expect(store._committing).toBe(false)
+
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    store.state.entities.users.data = {}
+
+    expect(spy).toHaveBeenCalled()
+
+    spy.mockRestore()
+  })
+
+  it('does not validate the records without the validate option', async () => {
+    await User.insert({ data: { id: 1 } })
+
+    expect(User.find(1)).not.toBe(null)
+  })
+})
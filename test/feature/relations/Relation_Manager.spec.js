@@ -0,0 +1,228 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Features – Relations – Relation Manager', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        roles: this.belongsToMany(Role, RoleUser, 'user_id', 'role_id'),
+        posts: this.hasMany(Post, 'user_id'),
+        profile: this.hasOne(Profile, 'user_id')
+      }
+    }
+  }
+
+  class Role extends Model {
+    static entity = 'roles'
+
+    static fields () {
+      return {
+        id: this.attr(null)
+      }
+    }
+  }
+
+  class RoleUser extends Model {
+    static entity = 'roleUser'
+
+    static primaryKey = ['role_id', 'user_id']
+
+    static fields () {
+      return {
+        role_id: this.attr(null),
+        user_id: this.attr(null),
+        level: this.attr(null)
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        title: this.attr(''),
+        author: this.belongsTo(User, 'user_id'),
+        tags: this.morphToMany(Tag, Taggable, 'tag_id', 'taggable_id', 'taggable_type'),
+        comments: this.morphMany(Comment, 'commentable_id', 'commentable_type')
+      }
+    }
+  }
+
+  class Profile extends Model {
+    static entity = 'profiles'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null)
+      }
+    }
+  }
+
+  class Tag extends Model {
+    static entity = 'tags'
+
+    static fields () {
+      return {
+        id: this.attr(null)
+      }
+    }
+  }
+
+  class Taggable extends Model {
+    static entity = 'taggables'
+
+    static fields () {
+      return {
+        id: this.increment(),
+        tag_id: this.attr(null),
+        taggable_id: this.attr(null),
+        taggable_type: this.attr(null)
+      }
+    }
+  }
+
+  class Comment extends Model {
+    static entity = 'comments'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        body: this.attr(''),
+        commentable_id: this.attr(null),
+        commentable_type: this.attr(null),
+        commentable: this.morphTo('commentable_id', 'commentable_type')
+      }
+    }
+  }
+
+  const roleIds = () => User.query().with('roles').find(1).roles.map(role => role.id).sort()
+
+  beforeEach(async () => {
+    createStore([
+      { model: User },
+      { model: Role },
+      { model: RoleUser },
+      { model: Post },
+      { model: Profile },
+      { model: Tag },
+      { model: Taggable },
+      { model: Comment }
+    ])
+
+    await User.insert({ data: [{ id: 1 }, { id: 2 }] })
+    await Role.insert({ data: [{ id: 1 }, { id: 2 }, { id: 3 }] })
+    await Tag.insert({ data: [{ id: 1 }, { id: 2 }] })
+    await Post.insert({ data: { id: 1, user_id: 1 } })
+  })
+
+  it('can attach the related records with the pivot data', async () => {
+    const user = User.find(1)
+
+    await user.$relation('roles').attach([1, Role.find(2)], { level: 'admin' })
+
+    expect(roleIds()).toEqual([1, 2])
+    expect(RoleUser.query().where('role_id', 2).first().level).toBe('admin')
+
+    await user.$relation('roles').attach(2, { level: 'guest' })
+
+    expect(RoleUser.all().length).toBe(2)
+    expect(RoleUser.query().where('role_id', 2).first().level).toBe('guest')
+  })
+
+  it('can detach the related records', async () => {
+    const user = User.find(1)
+
+    await user.$relation('roles').attach([1, 2, 3])
+    await User.find(2).$relation('roles').attach(1)
+
+    await user.$relation('roles').detach(2)
+
+    expect(roleIds()).toEqual([1, 3])
+
+    await user.$relation('roles').detach()
+
+    expect(roleIds()).toEqual([])
+    expect(RoleUser.all().length).toBe(1)
+  })
+
+  it('can sync the related records', async () => {
+    const user = User.find(1)
+
+    await user.$relation('roles').attach([1, 2])
+
+    const changes = await user.$relation('roles').sync({ 2: { level: 'admin' }, 3: {} })
+
+    expect(changes).toEqual({ attached: [3], detached: [1], updated: [2] })
+    expect(roleIds()).toEqual([2, 3])
+    expect(RoleUser.query().where('role_id', 2).first().level).toBe('admin')
+
+    expect(await user.$relation('roles').sync([3])).toEqual({ attached: [], detached: [2], updated: [] })
+  })
+
+  it('can toggle the related records', async () => {
+    const user = User.find(1)
+
+    await user.$relation('roles').attach(1)
+
+    expect(await user.$relation('roles').toggle([1, 2])).toEqual({ attached: [2], detached: [1], updated: [] })
+    expect(roleIds()).toEqual([2])
+  })
+
+  it('can attach the related records through polymorphic pivots', async () => {
+    const post = Post.find(1)
+
+    await post.$relation('tags').attach([1, 2])
+    await post.$relation('tags').attach(1)
+
+    expect(Taggable.all().length).toBe(2)
+    expect(Post.query().with('tags').find(1).tags.map(tag => tag.id)).toEqual([1, 2])
+
+    await post.$relation('tags').toggle(1)
+
+    expect(Post.query().with('tags').find(1).tags.map(tag => tag.id)).toEqual([2])
+  })
+
+  it('can create the related records', async () => {
+    const user = User.find(1)
+
+    await user.$relation('posts').create([{ id: 2, title: 'A' }, { id: 3, title: 'B' }])
+    await user.$relation('profile').create({ id: 1 })
+    await Post.find(1).$relation('comments').create({ id: 1, body: 'Hi' })
+
+    expect(User.query().with('posts').find(1).posts.map(post => post.id)).toEqual([1, 2, 3])
+    expect(Profile.find(1).user_id).toBe(1)
+    expect(Comment.query().with('commentable').find(1).commentable.id).toBe(1)
+  })
+
+  it('can associate and dissociate the related record', async () => {
+    await Post.find(1).$relation('author').associate(User.find(2))
+
+    expect(Post.find(1).user_id).toBe(2)
+
+    await Comment.insert({ data: { id: 1 } })
+
+    await Comment.find(1).$relation('commentable').associate(Post.find(1))
+
+    expect(Comment.find(1).commentable_type).toBe('posts')
+    expect(Comment.query().with('commentable').find(1).commentable.id).toBe(1)
+
+    await Post.find(1).$relation('author').dissociate()
+
+    expect(Post.find(1).user_id).toBe(null)
+  })
+
+  it('throws when the method is not supported by the relationship', () => {
+    const user = User.find(1)
+
+    expect(() => user.$relation('id')).toThrow()
+    expect(user.$relation('posts').attach(1)).rejects.toThrow()
+    expect(user.$relation('roles').associate(Role.find(1))).rejects.toThrow()
+  })
+})
@@ -0,0 +1,266 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+import Query from 'app/query/Query'
+
+describe('Feature – Relations – Retrieve – Aggregates', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        country_id: this.attr(null),
+        setting_ids: this.attr([]),
+        profile: this.hasOne(Profile, 'user_id'),
+        country: this.belongsTo(Country, 'country_id'),
+        posts: this.hasMany(Post, 'user_id'),
+        settings: this.hasManyBy(Setting, 'setting_ids'),
+        roles: this.belongsToMany(Role, RoleUser, 'user_id', 'role_id'),
+        image: this.morphOne(Image, 'imageable_id', 'imageable_type'),
+        comments: this.morphMany(Comment, 'commentable_id', 'commentable_type'),
+        tags: this.morphToMany(Tag, Taggable, 'tag_id', 'taggable_id', 'taggable_type')
+      }
+    }
+  }
+
+  class Profile extends Model {
+    static entity = 'profiles'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null)
+      }
+    }
+  }
+
+  class Country extends Model {
+    static entity = 'countries'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        posts: this.hasManyThrough(Post, User, 'country_id', 'user_id')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        likes: this.attr(0)
+      }
+    }
+  }
+
+  class Setting extends Model {
+    static entity = 'settings'
+
+    static fields () {
+      return {
+        id: this.attr(null)
+      }
+    }
+  }
+
+  class Role extends Model {
+    static entity = 'roles'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        level: this.attr(0)
+      }
+    }
+  }
+
+  class RoleUser extends Model {
+    static entity = 'roleUser'
+
+    static primaryKey = ['role_id', 'user_id']
+
+    static fields () {
+      return {
+        role_id: this.attr(null),
+        user_id: this.attr(null)
+      }
+    }
+  }
+
+  class Image extends Model {
+    static entity = 'images'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        imageable_id: this.attr(null),
+        imageable_type: this.attr(null)
+      }
+    }
+  }
+
+  class Comment extends Model {
+    static entity = 'comments'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        commentable_id: this.attr(null),
+        commentable_type: this.attr(null),
+        approved: this.attr(false),
+        commentable: this.morphTo('commentable_id', 'commentable_type')
+      }
+    }
+  }
+
+  class Tag extends Model {
+    static entity = 'tags'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        users: this.morphedByMany(User, Taggable, 'tag_id', 'taggable_id', 'taggable_type')
+      }
+    }
+  }
+
+  class Taggable extends Model {
+    static entity = 'taggables'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        tag_id: this.attr(null),
+        taggable_id: this.attr(null),
+        taggable_type: this.attr(null)
+      }
+    }
+  }
+
+  beforeEach(() => {
+    createStore([
+      { model: User },
+      { model: Profile },
+      { model: Country },
+      { model: Post },
+      { model: Setting },
+      { model: Role },
+      { model: RoleUser },
+      { model: Image },
+      { model: Comment },
+      { model: Tag },
+      { model: Taggable }
+    ])
+
+    User.insert({ data: [{ id: 1, country_id: 1, setting_ids: [1, 2] }, { id: 2, country_id: 1 }, { id: 3 }] })
+    Profile.insert({ data: { id: 1, user_id: 1 } })
+    Country.insert({ data: { id: 1 } })
+    Post.insert({ data: [{ id: 1, user_id: 1, likes: 3 }, { id: 2, user_id: 1, likes: 5 }, { id: 3, user_id: 2, likes: 1 }] })
+    Setting.insert({ data: [{ id: 1 }, { id: 2 }] })
+    Role.insert({ data: [{ id: 1, level: 1 }, { id: 2, level: 9 }] })
+    RoleUser.insert({ data: [{ role_id: 1, user_id: 1 }, { role_id: 2, user_id: 1 }, { role_id: 1, user_id: 2 }] })
+    Image.insert({ data: { id: 1, imageable_id: 2, imageable_type: 'users' } })
+    Comment.insert({
+      data: [
+        { id: 1, commentable_id: 1, commentable_type: 'users', approved: true },
+        { id: 2, commentable_id: 1, commentable_type: 'users' },
+        { id: 3, commentable_id: 3, commentable_type: 'users', approved: true }
+      ]
+    })
+    Tag.insert({ data: [{ id: 1 }, { id: 2 }] })
+    Taggable.insert({
+      data: [
+        { id: 1, tag_id: 1, taggable_id: 1, taggable_type: 'users' },
+        { id: 2, tag_id: 1, taggable_id: 2, taggable_type: 'users' },
+        { id: 3, tag_id: 2, taggable_id: 2, taggable_type: 'users' }
+      ]
+    })
+  })
+
+  function pluck (records, name) {
+    return records.map(record => record[name])
+  }
+
+  it('can count related records of every relation type', () => {
+    const users = User.query()
+      .withCount('profile')
+      .withCount('country')
+      .withCount('posts')
+      .withCount('settings')
+      .withCount('roles')
+      .withCount('image')
+      .withCount('comments')
+      .withCount('tags')
+      .get()
+
+    expect(pluck(users, 'profile_count')).toEqual([1, 0, 0])
+    expect(pluck(users, 'country_count')).toEqual([1, 1, 0])
+    expect(pluck(users, 'posts_count')).toEqual([2, 1, 0])
+    expect(pluck(users, 'settings_count')).toEqual([2, 0, 0])
+    expect(pluck(users, 'roles_count')).toEqual([2, 1, 0])
+    expect(pluck(users, 'image_count')).toEqual([0, 1, 0])
+    expect(pluck(users, 'comments_count')).toEqual([2, 0, 1])
+    expect(pluck(users, 'tags_count')).toEqual([1, 2, 0])
+
+    expect(pluck(Country.query().withCount('posts').get(), 'posts_count')).toEqual([3])
+    expect(pluck(Tag.query().withCount('users').get(), 'users_count')).toEqual([2, 1])
+    expect(pluck(Comment.query().withCount('commentable').get(), 'commentable_count')).toEqual([1, 1, 1])
+  })
+
+  it('can aggregate a field of related records', () => {
+    const users = User.query()
+      .withSum('posts', 'likes')
+      .withAvg('posts', 'likes')
+      .withMax('roles', 'level')
+      .withMin('roles', 'level')
+      .get()
+
+    expect(pluck(users, 'posts_sum_likes')).toEqual([8, 1, 0])
+    expect(pluck(users, 'posts_avg_likes')).toEqual([4, 1, 0])
+    expect(pluck(users, 'roles_max_level')).toEqual([9, 1, 0])
+    expect(pluck(users, 'roles_min_level')).toEqual([1, 1, 0])
+  })
+
+  it('can constrain the related records to aggregate', () => {
+    const users = User.query().withCount('comments', query => query.where('approved', true)).get()
+
+    expect(pluck(users, 'comments_count')).toEqual([1, 0, 1])
+  })
+
+  it('does not load the relation itself', () => {
+    const user = User.query().withCount('posts').find(1)
+
+    expect(user.posts_count).toBe(2)
+    expect(user.posts).toEqual([])
+  })
+
+  it('does not modify the records in the store', () => {
+    User.query().withCount('posts').with('roles').get()
+
+    expect(User.find(1).posts_count).toBe(undefined)
+  })
+
+  it('aggregates the related records without collecting them', () => {
+    const collect = jest.spyOn(Query.prototype, 'collect')
+
+    const users = User.query().withSum('posts', 'likes').withCount('roles').withCount('tags').get()
+
+    expect(pluck(users, 'posts_sum_likes')).toEqual([8, 1, 0])
+    expect(pluck(users, 'roles_count')).toEqual([2, 1, 0])
+    expect(pluck(users, 'tags_count')).toEqual([1, 2, 0])
+    expect(collect.mock.instances.map(query => query.entity)).toEqual(['users'])
+
+    collect.mockRestore()
+  })
+
+  it('can be combined with eager loading', () => {
+    const user = User.query().with('posts').withCount('posts').first()
+
+    expect(user.posts.length).toBe(2)
+    expect(user.posts_count).toBe(2)
+  })
+})
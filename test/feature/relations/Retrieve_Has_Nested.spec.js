@@ -0,0 +1,143 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Relations – Retrieve – Has – Nested', () => {
+  class Order extends Model {
+    static entity = 'orders'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        items: this.hasMany(Item, 'order_id')
+      }
+    }
+  }
+
+  class Item extends Model {
+    static entity = 'items'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        order_id: this.attr(null),
+        product_id: this.attr(null),
+        product: this.belongsTo(Product, 'product_id')
+      }
+    }
+  }
+
+  class Product extends Model {
+    static entity = 'products'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        discontinued: this.attr(false),
+        tags: this.hasMany(Tag, 'product_id')
+      }
+    }
+  }
+
+  class Tag extends Model {
+    static entity = 'tags'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        product_id: this.attr(null)
+      }
+    }
+  }
+
+  it('can query the existence of a nested relationship', async () => {
+    createStore([{ model: Order }, { model: Item }, { model: Product }, { model: Tag }])
+
+    await Order.insert({ data: [{ id: 1 }, { id: 2 }, { id: 3 }] })
+    await Product.insert({ data: [{ id: 1, discontinued: false }, { id: 2, discontinued: true }] })
+    await Tag.insert({ data: [{ id: 1, product_id: 1 }, { id: 2, product_id: 1 }, { id: 3, product_id: 2 }] })
+    await Item.insert({
+      data: [
+        { id: 1, order_id: 1, product_id: 1 },
+        { id: 2, order_id: 1, product_id: 2 },
+        { id: 3, order_id: 2, product_id: 1 },
+        { id: 4, order_id: 3, product_id: 3 }
+      ]
+    })
+
+    expect(Order.query().has('items.product').get().map(order => order.id)).toEqual([1, 2])
+    expect(Order.query().hasNot('items.product').get().map(order => order.id)).toEqual([3])
+  })
+
+  it('can query the count of a nested relationship', async () => {
+    createStore([{ model: Order }, { model: Item }, { model: Product }, { model: Tag }])
+
+    await Order.insert({ data: [{ id: 1 }, { id: 2 }, { id: 3 }] })
+    await Product.insert({ data: [{ id: 1, discontinued: false }, { id: 2, discontinued: true }] })
+    await Tag.insert({ data: [{ id: 1, product_id: 1 }, { id: 2, product_id: 1 }, { id: 3, product_id: 2 }] })
+    await Item.insert({
+      data: [
+        { id: 1, order_id: 1, product_id: 1 },
+        { id: 2, order_id: 1, product_id: 2 },
+        { id: 3, order_id: 2, product_id: 1 },
+        { id: 4, order_id: 3, product_id: 3 }
+      ]
+    })
+
+    expect(Order.query().has('items.product.tags', '>', 1).get().map(order => order.id)).toEqual([1, 2])
+    expect(Order.query().has('items.product.tags', 1).get().map(order => order.id)).toEqual([1, 2])
+    expect(Order.query().has('items.product.tags', '=', 1).get().map(order => order.id)).toEqual([1])
+    expect(Order.query().hasNot('items.product.tags', '=', 1).get().map(order => order.id)).toEqual([2, 3])
+  })
+
+  it('can add constraints to the last nested relationship', async () => {
+    createStore([{ model: Order }, { model: Item }, { model: Product }, { model: Tag }])
+
+    await Order.insert({ data: [{ id: 1 }, { id: 2 }, { id: 3 }] })
+    await Product.insert({ data: [{ id: 1, discontinued: false }, { id: 2, discontinued: true }] })
+    await Tag.insert({ data: [{ id: 1, product_id: 1 }, { id: 2, product_id: 1 }, { id: 3, product_id: 2 }] })
+    await Item.insert({
+      data: [
+        { id: 1, order_id: 1, product_id: 1 },
+        { id: 2, order_id: 1, product_id: 2 },
+        { id: 3, order_id: 2, product_id: 1 },
+        { id: 4, order_id: 3, product_id: 3 }
+      ]
+    })
+
+    const orders = Order.query().whereHas('items.product', (query) => {
+      query.where('discontinued', true)
+    }).get()
+
+    expect(orders.map(order => order.id)).toEqual([1])
+
+    const others = Order.query().whereHasNot('items.product', (query) => {
+      query.where('discontinued', true)
+    }).get()
+
+    expect(others.map(order => order.id)).toEqual([2, 3])
+  })
+
+  it('can add constraints at each level through nested whereHas', async () => {
+    createStore([{ model: Order }, { model: Item }, { model: Product }, { model: Tag }])
+
+    await Order.insert({ data: [{ id: 1 }, { id: 2 }, { id: 3 }] })
+    await Product.insert({ data: [{ id: 1, discontinued: false }, { id: 2, discontinued: true }] })
+    await Tag.insert({ data: [{ id: 1, product_id: 1 }, { id: 2, product_id: 1 }, { id: 3, product_id: 2 }] })
+    await Item.insert({
+      data: [
+        { id: 1, order_id: 1, product_id: 1 },
+        { id: 2, order_id: 1, product_id: 2 },
+        { id: 3, order_id: 2, product_id: 1 },
+        { id: 4, order_id: 3, product_id: 3 }
+      ]
+    })
+
+    const orders = Order.query().whereHas('items', (query) => {
+      query.where('id', 3).whereHas('product', (query) => {
+        query.where('discontinued', false)
+      })
+    }).get()
+
+    expect(orders.map(order => order.id)).toEqual([2])
+  })
+})
@@ -0,0 +1,159 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Relations – Retrieve – Load', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr('')
+      }
+    }
+  }
+
+  class Post extends Model {
+    static entity = 'posts'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        user_id: this.attr(null),
+        author: this.belongsTo(User, 'user_id'),
+        comments: this.hasMany(Comment, 'post_id')
+      }
+    }
+  }
+
+  class Comment extends Model {
+    static entity = 'comments'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        post_id: this.attr(null),
+        user_id: this.attr(null),
+        body: this.attr(''),
+        author: this.belongsTo(User, 'user_id')
+      }
+    }
+  }
+
+  it('can load nested relationships onto a retrieved model', async () => {
+    createStore([{ model: User }, { model: Post }, { model: Comment }])
+
+    await User.insert({ data: [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }] })
+    await Post.insert({ data: [{ id: 1, user_id: 1 }, { id: 2, user_id: 2 }] })
+    await Comment.insert({
+      data: [
+        { id: 1, post_id: 1, user_id: 2, body: 'a' },
+        { id: 2, post_id: 1, user_id: 1, body: 'b' },
+        { id: 3, post_id: 2, user_id: 1, body: 'c' }
+      ]
+    })
+
+    const post = Post.find(1)
+
+    const loaded = post.$load('comments.author')
+
+    expect(loaded).toBeInstanceOf(Post)
+    expect(loaded.comments.length).toBe(2)
+    expect(loaded.comments[0].author.name).toBe('Jane')
+    expect(loaded.comments[1].author.name).toBe('John')
+
+    expect(post.comments).toEqual([])
+    expect(Post.find(1).comments).toEqual([])
+  })
+
+  it('can load relationships with a constraint', async () => {
+    createStore([{ model: User }, { model: Post }, { model: Comment }])
+
+    await User.insert({ data: [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }] })
+    await Post.insert({ data: [{ id: 1, user_id: 1 }, { id: 2, user_id: 2 }] })
+    await Comment.insert({
+      data: [
+        { id: 1, post_id: 1, user_id: 2, body: 'a' },
+        { id: 2, post_id: 1, user_id: 1, body: 'b' },
+        { id: 3, post_id: 2, user_id: 1, body: 'c' }
+      ]
+    })
+
+    const post = Post.find(1).$load('comments', (query) => {
+      query.where('body', 'b')
+    })
+
+    expect(post.comments.length).toBe(1)
+    expect(post.comments[0].id).toBe(2)
+  })
+
+  it('can load relationships onto a collection', async () => {
+    createStore([{ model: User }, { model: Post }, { model: Comment }])
+
+    await User.insert({ data: [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }] })
+    await Post.insert({ data: [{ id: 1, user_id: 1 }, { id: 2, user_id: 2 }] })
+    await Comment.insert({
+      data: [
+        { id: 1, post_id: 1, user_id: 2, body: 'a' },
+        { id: 2, post_id: 1, user_id: 1, body: 'b' },
+        { id: 3, post_id: 2, user_id: 1, body: 'c' }
+      ]
+    })
+
+    const posts = Post.load(Post.all(), ['author', 'comments'])
+
+    expect(posts.length).toBe(2)
+    expect(posts[0].author.name).toBe('John')
+    expect(posts[0].comments.length).toBe(2)
+    expect(posts[1].author.name).toBe('Jane')
+    expect(posts[1].comments.length).toBe(1)
+  })
+
+  it('loads only the missing relationships', async () => {
+    createStore([{ model: User }, { model: Post }, { model: Comment }])
+
+    await User.insert({ data: [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }] })
+    await Post.insert({ data: [{ id: 1, user_id: 1 }, { id: 2, user_id: 2 }] })
+    await Comment.insert({
+      data: [
+        { id: 1, post_id: 1, user_id: 2, body: 'a' },
+        { id: 2, post_id: 1, user_id: 1, body: 'b' },
+        { id: 3, post_id: 2, user_id: 1, body: 'c' }
+      ]
+    })
+
+    const post = Post.query().with('comments', (query) => {
+      query.where('id', 1)
+    }).find(1)
+
+    const loaded = post.$loadMissing(['comments.author', 'author'])
+
+    expect(loaded.author.name).toBe('John')
+    expect(loaded.comments.length).toBe(1)
+    expect(loaded.comments[0].author.name).toBe('Jane')
+  })
+
+  it('loads the missing relationships onto a collection', async () => {
+    createStore([{ model: User }, { model: Post }, { model: Comment }])
+
+    await User.insert({ data: [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }] })
+    await Post.insert({ data: [{ id: 1, user_id: 1 }, { id: 2, user_id: 2 }] })
+    await Comment.insert({
+      data: [
+        { id: 1, post_id: 1, user_id: 2, body: 'a' },
+        { id: 2, post_id: 1, user_id: 1, body: 'b' },
+        { id: 3, post_id: 2, user_id: 1, body: 'c' }
+      ]
+    })
+
+    const posts = [
+      Post.query().with('comments', query => query.where('id', 2)).find(1),
+      Post.find(2)
+    ]
+
+    const loaded = Post.loadMissing(posts, 'comments')
+
+    expect(loaded[0].comments.map(comment => comment.id)).toEqual([2])
+    expect(loaded[1].comments.map(comment => comment.id)).toEqual([3])
+  })
+})
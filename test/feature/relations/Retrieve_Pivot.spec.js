@@ -0,0 +1,278 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Feature – Relations – Retrieve – Pivot', () => {
+  class User extends Model {
+    static entity = 'users'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        roles: this.belongsToMany(Role, RoleUser, 'user_id', 'role_id').withPivot(['level', 'granted_at']),
+        tags: this.morphToMany(Tag, Taggable, 'tag_id', 'taggable_id', 'taggable_type').withPivot('weight')
+      }
+    }
+  }
+
+  class Role extends Model {
+    static entity = 'roles'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        name: this.attr(''),
+        users: this.belongsToMany(User, RoleUser, 'role_id', 'user_id')
+      }
+    }
+  }
+
+  class RoleUser extends Model {
+    static entity = 'roleUser'
+
+    static primaryKey = ['role_id', 'user_id']
+
+    static fields () {
+      return {
+        role_id: this.attr(null),
+        user_id: this.attr(null),
+        level: this.attr(null),
+        granted_at: this.attr(null),
+        note: this.attr(null)
+      }
+    }
+  }
+
+  class Tag extends Model {
+    static entity = 'tags'
+
+    static fields () {
+      return {
+        id: this.attr(null),
+        users: this.morphedByMany(User, Taggable, 'tag_id', 'taggable_id', 'taggable_type').withPivot('weight')
+      }
+    }
+  }
+
+  class Taggable extends Model {
+    static entity = 'taggables'
+
+    static fields () {
+      return {
+        id: this.increment(),
+        tag_id: this.attr(null),
+        taggable_id: this.attr(null),
+        taggable_type: this.attr(null),
+        weight: this.attr(0)
+      }
+    }
+  }
+
+  it('exposes the pivot fields on the related records', async () => {
+    createStore([{ model: User }, { model: Role }, { model: RoleUser }, { model: Tag }, { model: Taggable }])
+
+    await User.insert({ data: [{ id: 1 }, { id: 2 }] })
+    await Role.insert({ data: [{ id: 1, name: 'admin' }, { id: 2, name: 'editor' }, { id: 3, name: 'viewer' }] })
+    await Tag.insert({ data: [{ id: 1 }, { id: 2 }] })
+
+    await RoleUser.insert({
+      data: [
+        { user_id: 1, role_id: 1, level: 3, granted_at: '2020-03-01', note: 'a' },
+        { user_id: 1, role_id: 2, level: 1, granted_at: '2020-01-01', note: 'b' },
+        { user_id: 1, role_id: 3, level: 2, granted_at: '2020-02-01', note: 'c' },
+        { user_id: 2, role_id: 1, level: 1, granted_at: '2020-04-01', note: 'd' }
+      ]
+    })
+
+    await Taggable.insert({
+      data: [
+        { tag_id: 1, taggable_id: 1, taggable_type: 'users', weight: 5 },
+        { tag_id: 2, taggable_id: 1, taggable_type: 'users', weight: 8 },
+        { tag_id: 1, taggable_id: 2, taggable_type: 'users', weight: 2 }
+      ]
+    })
+
+    const user = User.query().with('roles').find(1)
+
+    expect(user.roles.length).toBe(3)
+    expect(user.roles[0].pivot).toBeInstanceOf(RoleUser)
+    expect(user.roles[0].pivot.role_id).toBe(1)
+    expect(user.roles[0].pivot.user_id).toBe(1)
+    expect(user.roles[0].pivot.level).toBe(3)
+    expect(user.roles[0].pivot.granted_at).toBe('2020-03-01')
+    expect(user.roles[0].pivot.note).toBe(undefined)
+  })
+
+  it('exposes the pivot of each parent on the shared related record', async () => {
+    createStore([{ model: User }, { model: Role }, { model: RoleUser }, { model: Tag }, { model: Taggable }])
+
+    await User.insert({ data: [{ id: 1 }, { id: 2 }] })
+    await Role.insert({ data: [{ id: 1, name: 'admin' }, { id: 2, name: 'editor' }, { id: 3, name: 'viewer' }] })
+    await Tag.insert({ data: [{ id: 1 }, { id: 2 }] })
+
+    await RoleUser.insert({
+      data: [
+        { user_id: 1, role_id: 1, level: 3, granted_at: '2020-03-01', note: 'a' },
+        { user_id: 1, role_id: 2, level: 1, granted_at: '2020-01-01', note: 'b' },
+        { user_id: 1, role_id: 3, level: 2, granted_at: '2020-02-01', note: 'c' },
+        { user_id: 2, role_id: 1, level: 1, granted_at: '2020-04-01', note: 'd' }
+      ]
+    })
+
+    await Taggable.insert({
+      data: [
+        { tag_id: 1, taggable_id: 1, taggable_type: 'users', weight: 5 },
+        { tag_id: 2, taggable_id: 1, taggable_type: 'users', weight: 8 },
+        { tag_id: 1, taggable_id: 2, taggable_type: 'users', weight: 2 }
+      ]
+    })
+
+    const users = User.query().with('roles').get()
+
+    expect(users[0].roles[0].id).toBe(1)
+    expect(users[0].roles[0].pivot.level).toBe(3)
+    expect(users[1].roles[0].id).toBe(1)
+    expect(users[1].roles[0].pivot.level).toBe(1)
+  })
+
+  it('does not expose the pivot when the relationship does not declare it', async () => {
+    createStore([{ model: User }, { model: Role }, { model: RoleUser }, { model: Tag }, { model: Taggable }])
+
+    await User.insert({ data: [{ id: 1 }, { id: 2 }] })
+    await Role.insert({ data: [{ id: 1, name: 'admin' }, { id: 2, name: 'editor' }, { id: 3, name: 'viewer' }] })
+    await Tag.insert({ data: [{ id: 1 }, { id: 2 }] })
+
+    await RoleUser.insert({
+      data: [
+        { user_id: 1, role_id: 1, level: 3, granted_at: '2020-03-01', note: 'a' },
+        { user_id: 1, role_id: 2, level: 1, granted_at: '2020-01-01', note: 'b' },
+        { user_id: 1, role_id: 3, level: 2, granted_at: '2020-02-01', note: 'c' },
+        { user_id: 2, role_id: 1, level: 1, granted_at: '2020-04-01', note: 'd' }
+      ]
+    })
+
+    await Taggable.insert({
+      data: [
+        { tag_id: 1, taggable_id: 1, taggable_type: 'users', weight: 5 },
+        { tag_id: 2, taggable_id: 1, taggable_type: 'users', weight: 8 },
+        { tag_id: 1, taggable_id: 2, taggable_type: 'users', weight: 2 }
+      ]
+    })
+
+    const role = Role.query().with('users').find(1)
+
+    expect(role.users.length).toBe(2)
+    expect(role.users[0].pivot).toBe(undefined)
+  })
+
+  it('can filter and order the related records by the pivot fields', async () => {
+    createStore([{ model: User }, { model: Role }, { model: RoleUser }, { model: Tag }, { model: Taggable }])
+
+    await User.insert({ data: [{ id: 1 }, { id: 2 }] })
+    await Role.insert({ data: [{ id: 1, name: 'admin' }, { id: 2, name: 'editor' }, { id: 3, name: 'viewer' }] })
+    await Tag.insert({ data: [{ id: 1 }, { id: 2 }] })
+
+    await RoleUser.insert({
+      data: [
+        { user_id: 1, role_id: 1, level: 3, granted_at: '2020-03-01', note: 'a' },
+        { user_id: 1, role_id: 2, level: 1, granted_at: '2020-01-01', note: 'b' },
+        { user_id: 1, role_id: 3, level: 2, granted_at: '2020-02-01', note: 'c' },
+        { user_id: 2, role_id: 1, level: 1, granted_at: '2020-04-01', note: 'd' }
+      ]
+    })
+
+    await Taggable.insert({
+      data: [
+        { tag_id: 1, taggable_id: 1, taggable_type: 'users', weight: 5 },
+        { tag_id: 2, taggable_id: 1, taggable_type: 'users', weight: 8 },
+        { tag_id: 1, taggable_id: 2, taggable_type: 'users', weight: 2 }
+      ]
+    })
+
+    const user = User.query().with('roles', (query) => {
+      query.wherePivot('level', '>', 1).orderByPivot('granted_at', 'desc')
+    }).find(1)
+
+    expect(user.roles.map(role => role.id)).toEqual([1, 3])
+
+    const ordered = User.query().with('roles', (query) => {
+      query.orderByPivot('level')
+    }).find(1)
+
+    expect(ordered.roles.map(role => role.pivot.level)).toEqual([1, 2, 3])
+  })
+
+  it('keeps the pivot when the related records are projected', async () => {
+    createStore([{ model: User }, { model: Role }, { model: RoleUser }, { model: Tag }, { model: Taggable }])
+
+    await User.insert({ data: [{ id: 1 }, { id: 2 }] })
+    await Role.insert({ data: [{ id: 1, name: 'admin' }, { id: 2, name: 'editor' }, { id: 3, name: 'viewer' }] })
+    await Tag.insert({ data: [{ id: 1 }, { id: 2 }] })
+
+    await RoleUser.insert({
+      data: [
+        { user_id: 1, role_id: 1, level: 3, granted_at: '2020-03-01', note: 'a' },
+        { user_id: 1, role_id: 2, level: 1, granted_at: '2020-01-01', note: 'b' },
+        { user_id: 1, role_id: 3, level: 2, granted_at: '2020-02-01', note: 'c' },
+        { user_id: 2, role_id: 1, level: 1, granted_at: '2020-04-01', note: 'd' }
+      ]
+    })
+
+    await Taggable.insert({
+      data: [
+        { tag_id: 1, taggable_id: 1, taggable_type: 'users', weight: 5 },
+        { tag_id: 2, taggable_id: 1, taggable_type: 'users', weight: 8 },
+        { tag_id: 1, taggable_id: 2, taggable_type: 'users', weight: 2 }
+      ]
+    })
+
+    const user = User.query().with('roles', (query) => {
+      query.only('name').wherePivot('granted_at', '2020-01-01')
+    }).find(1)
+
+    expect(user.roles.length).toBe(1)
+    expect(user.roles[0].name).toBe('editor')
+    expect(user.roles[0].id).toBe(undefined)
+    expect(user.roles[0].pivot.level).toBe(1)
+  })
+
+  it('exposes the pivot on morph to many and morphed by many relations', async () => {
+    createStore([{ model: User }, { model: Role }, { model: RoleUser }, { model: Tag }, { model: Taggable }])
+
+    await User.insert({ data: [{ id: 1 }, { id: 2 }] })
+    await Role.insert({ data: [{ id: 1, name: 'admin' }, { id: 2, name: 'editor' }, { id: 3, name: 'viewer' }] })
+    await Tag.insert({ data: [{ id: 1 }, { id: 2 }] })
+
+    await RoleUser.insert({
+      data: [
+        { user_id: 1, role_id: 1, level: 3, granted_at: '2020-03-01', note: 'a' },
+        { user_id: 1, role_id: 2, level: 1, granted_at: '2020-01-01', note: 'b' },
+        { user_id: 1, role_id: 3, level: 2, granted_at: '2020-02-01', note: 'c' },
+        { user_id: 2, role_id: 1, level: 1, granted_at: '2020-04-01', note: 'd' }
+      ]
+    })
+
+    await Taggable.insert({
+      data: [
+        { tag_id: 1, taggable_id: 1, taggable_type: 'users', weight: 5 },
+        { tag_id: 2, taggable_id: 1, taggable_type: 'users', weight: 8 },
+        { tag_id: 1, taggable_id: 2, taggable_type: 'users', weight: 2 }
+      ]
+    })
+
+    const user = User.query().with('tags', (query) => {
+      query.orderByPivot('weight', 'desc')
+    }).find(1)
+
+    expect(user.tags.map(tag => tag.id)).toEqual([2, 1])
+    expect(user.tags[0].pivot.weight).toBe(8)
+    expect(user.tags[0].pivot.taggable_type).toBe('users')
+
+    const tag = Tag.query().with('users', (query) => {
+      query.wherePivot('weight', 2)
+    }).find(1)
+
+    expect(tag.users.length).toBe(1)
+    expect(tag.users[0].id).toBe(2)
+    expect(tag.users[0].pivot.weight).toBe(2)
+  })
+})
@@ -0,0 +1,62 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Performance – Retrieve – Has Many – Indexed', () => {
+  it('should retrieve hasMany relation through indexes in time', async () => {
+    class User extends Model {
+      static entity = 'users'
+
+      static fields () {
+        return {
+          id: this.attr(null),
+          posts: this.hasMany(Post, 'user_id')
+        }
+      }
+    }
+
+    class Post extends Model {
+      static entity = 'posts'
+
+      static indexes () {
+        return ['user_id']
+      }
+
+      static fields () {
+        return {
+          id: this.attr(null),
+          user_id: this.attr(null)
+        }
+      }
+    }
+
+    const users = []
+    const posts = []
+
+    for (let i = 1; i <= 2000; i++) {
+      users.push({ id: i })
+    }
+
+    for (let i = 1; i <= 50000; i++) {
+      posts.push({ id: i, user_id: i % 2000 + 1 })
+    }
+
+    const store = createStore([{ model: User }, { model: Post }])
+
+    await store.dispatch('entities/users/create', { data: users })
+    await store.dispatch('entities/posts/create', { data: posts })
+
+    // The index gets built lazily on the first lookup.
+    store.getters['entities/users/query']().with('posts').find(1)
+
+    const start = new Date()
+
+    for (let i = 1; i <= 100; i++) {
+      store.getters['entities/users/query']().with('posts').find(i)
+    }
+
+    const end = new Date()
+
+    expect(end - start).toBeLessThan(300)
+    console.info('\x1b[2m%s\x1b[0m', `    -- The test took ${end - start}ms`)
+  })
+})
@@ -0,0 +1,50 @@
+import { createStore } from 'test/support/Helpers'
+import Model from 'app/model/Model'
+
+describe('Performance – Retrieve – Order By – Sorted Index', () => {
+  it('should retrieve the first page of sorted records in time', async () => {
+    class Post extends Model {
+      static entity = 'posts'
+
+      static sortedIndexes () {
+        return ['created_at']
+      }
+
+      static fields () {
+        return {
+          id: this.attr(null),
+          created_at: this.attr(null)
+        }
+      }
+    }
+
+    const posts = []
+
+    for (let i = 1; i <= 50000; i++) {
+      posts.push({ id: i, created_at: (i * 7919) % 50000 })
+    }
+
+    const store = createStore([{ model: Post }])
+
+    await store.dispatch('entities/posts/create', { data: posts })
+
+    // The index gets built lazily on the first query.
+    store.getters['entities/posts/query']().orderBy('created_at').limit(20).get()
+
+    const start = new Date()
+
+    for (let i = 0; i < 100; i++) {
+      store.getters['entities/posts/query']()
+        .where('created_at', '>', i * 100)
+        .orderBy('created_at', 'desc')
+        .offset(20)
+        .limit(20)
+        .get()
+    }
+
+    const end = new Date()
+
+    expect(end - start).toBeLessThan(300)
+    console.info('\x1b[2m%s\x1b[0m', `    -- The test took ${end - start}ms`)
+  })
+})
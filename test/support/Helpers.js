@@ -10,7 +10,7 @@ Vue.use(Vuex)
 /**
  * Create a new Vuex Store.
  */
-export function createStore (entities, namespace) {
+export function createStore (entities, namespace, options = {}) {
   const database = new Database()
 
   entities.forEach((entity) => {
@@ -18,7 +18,7 @@ export function createStore (entities, namespace) {
   })
 
   return new Vuex.Store({
-    plugins: [VuexORM.install(database, { namespace })],
+    plugins: [VuexORM.install(database, { namespace, ...options })],
     strict: true
   })
 }